@@ -0,0 +1,307 @@
+import { Page } from 'playwright';
+import { WcagLevel } from '../types';
+import { Issue } from './form/types';
+
+export interface AccessibilityAuditOptions {
+  level?: WcagLevel;      // Rules up to this level (default: the auditor's, else AA)
+  selector?: string;      // Only audit inside this element
+  ignoreRules?: string[]; // Rule ids to skip, e.g. ['color-contrast']
+}
+
+export interface AccessibilityReport {
+  url: string;
+  level: WcagLevel;
+  rules: string[];        // Rules that ran
+  issues: Issue[];
+}
+
+interface RuleInfo {
+  level: WcagLevel;
+  wcag: string;
+  severity: Issue['severity'];
+  recommendation: string;
+}
+
+// Raw finding from the page
+interface Finding {
+  rule: string;
+  element?: string;
+  message: string;
+}
+
+export const WCAG_LEVELS: WcagLevel[] = ['A', 'AA', 'AAA'];
+export const SEVERITIES: Issue['severity'][] = ['critical', 'high', 'medium', 'low'];
+const MAX_PER_RULE = 50;
+
+const RULES: Record<string, RuleInfo> = {
+  'image-alt': { level: 'A', wcag: '1.1.1 Non-text Content (Level A)', severity: 'high', recommendation: 'Add alt text (alt="" for decorative images)' },
+  'heading-order': { level: 'A', wcag: '1.3.1 Info and Relationships (Level A)', severity: 'medium', recommendation: 'Use headings in order without skipping levels, starting with one h1' },
+  'landmarks': { level: 'A', wcag: '1.3.1 Info and Relationships (Level A)', severity: 'medium', recommendation: 'Put the page content in one <main> and use header/nav/footer landmarks' },
+  'duplicate-id': { level: 'A', wcag: '4.1.1 Parsing (Level A)', severity: 'medium', recommendation: 'Make id attributes unique - labels and aria-* references resolve to the first match only' },
+  'button-name': { level: 'A', wcag: '4.1.2 Name, Role, Value (Level A)', severity: 'high', recommendation: 'Give the button visible text, aria-label or aria-labelledby' },
+  'link-name': { level: 'A', wcag: '2.4.4 Link Purpose (In Context) (Level A)', severity: 'high', recommendation: 'Give the link text that describes its target (or aria-label)' },
+  'aria-role': { level: 'A', wcag: '4.1.2 Name, Role, Value (Level A)', severity: 'medium', recommendation: 'Use a valid, non-abstract WAI-ARIA role' },
+  'html-lang': { level: 'A', wcag: '3.1.1 Language of Page (Level A)', severity: 'medium', recommendation: 'Set <html lang="..."> to the page language' },
+  'document-title': { level: 'A', wcag: '2.4.2 Page Titled (Level A)', severity: 'medium', recommendation: 'Give the page a descriptive <title>' },
+  'empty-heading': { level: 'AA', wcag: '2.4.6 Headings and Labels (Level AA)', severity: 'low', recommendation: 'Remove empty headings or give them text' },
+  'color-contrast': { level: 'AA', wcag: '1.4.3 Contrast (Minimum) (Level AA)', severity: 'high', recommendation: 'Increase contrast to at least 4.5:1 (3:1 for large text)' },
+  'color-contrast-enhanced': { level: 'AAA', wcag: '1.4.6 Contrast (Enhanced) (Level AAA)', severity: 'medium', recommendation: 'Increase contrast to at least 7:1 (4.5:1 for large text)' },
+};
+
+export const ACCESSIBILITY_RULES = Object.keys(RULES);
+
+/**
+ * Whether a success criterion of level `criterion` is checked at `level`
+ */
+export function withinLevel(criterion: WcagLevel, level: WcagLevel): boolean {
+  return WCAG_LEVELS.indexOf(criterion) <= WCAG_LEVELS.indexOf(level);
+}
+
+/**
+ * Page-level accessibility checks (alt text, headings, landmarks, ids,
+ * accessible names, ARIA roles, contrast), reported as Issues with their
+ * WCAG success criterion. Rules above the requested level are skipped.
+ */
+export class AccessibilityAuditor {
+  constructor(private page: Page, private level: WcagLevel = 'AA') {}
+
+  async audit(options: AccessibilityAuditOptions = {}): Promise<AccessibilityReport> {
+    const level = options.level || this.level;
+    if (!WCAG_LEVELS.includes(level)) throw new Error(`WCAG level must be one of ${WCAG_LEVELS.join('|')} (got "${level}")`);
+    const unknown = (options.ignoreRules || []).filter(rule => !RULES[rule]);
+    if (unknown.length) throw new Error(`Unknown accessibility rule(s): ${unknown.join(', ')}. Available: ${ACCESSIBILITY_RULES.join(', ')}`);
+    const rules = ACCESSIBILITY_RULES.filter(rule => withinLevel(RULES[rule].level, level) && !options.ignoreRules?.includes(rule));
+
+    const findings = await this.page.evaluate(runChecks, { rules, selector: options.selector || null, maxPerRule: MAX_PER_RULE });
+    return {
+      url: this.page.url(),
+      level,
+      rules,
+      issues: findings.map(f => ({
+        severity: RULES[f.rule].severity,
+        category: 'accessibility' as const,
+        rule: f.rule,
+        element: f.element,
+        message: f.message,
+        recommendation: RULES[f.rule].recommendation,
+        wcagCriteria: RULES[f.rule].wcag,
+      })),
+    };
+  }
+
+  /**
+   * One line per issue, for assertion messages and the CLI
+   */
+  static format(issue: Issue): string {
+    return `[${issue.severity}] ${issue.rule}: ${issue.message}${issue.element ? ` (${issue.element})` : ''}`;
+  }
+
+  static printSummary(report: AccessibilityReport): void {
+    console.log(`\n${'='.repeat(80)}`);
+    console.log(`\n♿ Accessibility: ${report.url} (WCAG ${report.level}, ${report.rules.length} rules)`);
+    if (!report.issues.length) {
+      console.log('✅ No issues found');
+    }
+    for (const severity of SEVERITIES) {
+      const issues = report.issues.filter(i => i.severity === severity);
+      if (!issues.length) continue;
+      console.log(`\n${severity.toUpperCase()} (${issues.length}):`);
+      const byRule = new Map<string, Issue[]>();
+      issues.forEach(i => byRule.set(i.rule!, [...(byRule.get(i.rule!) || []), i]));
+      for (const [rule, ruleIssues] of byRule) {
+        console.log(`   ${rule} - ${ruleIssues[0].wcagCriteria}`);
+        ruleIssues.slice(0, 10).forEach(i => console.log(`      - ${i.message}${i.element ? ` (${i.element})` : ''}`));
+        if (ruleIssues.length > 10) console.log(`      ... ${ruleIssues.length - 10} more`);
+        console.log(`      💡 ${ruleIssues[0].recommendation}`);
+      }
+    }
+    console.log(`\n${'='.repeat(80)}\n`);
+  }
+}
+
+/**
+ * In-page checks (serialized by page.evaluate - no outer references)
+ */
+function runChecks({ rules, selector, maxPerRule }: { rules: string[]; selector: string | null; maxPerRule: number }): Finding[] {
+  const root: Element | null = selector ? document.querySelector(selector) : document.documentElement;
+  if (!root) throw new Error(`No element matches ${selector}`);
+  const findings: Finding[] = [];
+  const counts: Record<string, number> = {};
+  const enabled = (rule: string) => rules.includes(rule);
+  const report = (rule: string, message: string, el?: Element) => {
+    counts[rule] = (counts[rule] || 0) + 1;
+    if (counts[rule] <= maxPerRule) findings.push({ rule, message, element: el ? describe(el) : undefined });
+  };
+  const all = (sel: string) => Array.from(root.querySelectorAll(sel));
+  const clean = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+  function describe(el: Element): string {
+    const tag = el.tagName.toLowerCase();
+    if (el.id) return `${tag}#${el.id}`;
+    const cls = typeof el.className === 'string' && el.className.trim() ? `.${el.className.trim().split(/\s+/).slice(0, 2).join('.')}` : '';
+    const src = el.getAttribute('src') || el.getAttribute('href');
+    const text = clean((el as HTMLElement).innerText).slice(0, 40);
+    return `${tag}${cls}${src ? `[${el.hasAttribute('src') ? 'src' : 'href'}="${src.slice(0, 60)}"]` : ''}${text ? ` "${text}"` : ''}`;
+  }
+
+  function hidden(el: Element): boolean {
+    if (el.closest('[aria-hidden="true"], [hidden]')) return true;
+    const style = getComputedStyle(el);
+    if (style.display === 'none' || style.visibility === 'hidden') return true;
+    const rect = el.getBoundingClientRect();
+    return rect.width === 0 && rect.height === 0 && style.position !== 'absolute';
+  }
+
+  function accessibleName(el: Element): string {
+    const labelledBy = clean((el.getAttribute('aria-labelledby') || '').split(/\s+/).map(id => document.getElementById(id)?.textContent || '').join(' '));
+    const images = Array.from(el.querySelectorAll('img[alt], [role="img"][aria-label], svg title')).map(i => i.getAttribute('alt') || i.getAttribute('aria-label') || i.textContent).join(' ');
+    const value = el instanceof HTMLInputElement && ['button', 'submit', 'reset'].includes(el.type) ? el.value || (el.type !== 'button' ? el.type : '') : '';
+    const imageAlt = el instanceof HTMLInputElement && el.type === 'image' ? el.alt : '';
+    return clean(el.getAttribute('aria-label') || labelledBy || (el as HTMLElement).innerText || el.textContent || images || value || imageAlt || el.getAttribute('title'));
+  }
+
+  // 1.1.1 - images need a text alternative (alt="" marks them decorative)
+  if (enabled('image-alt')) {
+    for (const img of all('img, input[type="image"], [role="img"]')) {
+      if (hidden(img) || ['presentation', 'none'].includes(img.getAttribute('role') || '')) continue;
+      const tag = img.tagName.toLowerCase();
+      if (tag === 'img' && !img.hasAttribute('alt') && !img.getAttribute('aria-label') && !img.getAttribute('aria-labelledby')) report('image-alt', 'Image has no alt attribute', img);
+      else if (tag === 'input' && !clean(img.getAttribute('alt')) && !img.getAttribute('aria-label')) report('image-alt', 'Image button has no alt text', img);
+      else if (tag !== 'img' && tag !== 'input' && !accessibleName(img)) report('image-alt', 'Element with role="img" has no accessible name', img);
+    }
+  }
+
+  // 1.3.1 / 2.4.6 - headings
+  const headings = all('h1, h2, h3, h4, h5, h6, [role="heading"]').filter(h => !hidden(h));
+  const levelOf = (h: Element) => h.getAttribute('role') === 'heading' ? parseInt(h.getAttribute('aria-level') || '2') : parseInt(h.tagName[1]);
+  if (enabled('heading-order') && !selector) {
+    const h1s = headings.filter(h => levelOf(h) === 1);
+    if (!h1s.length && headings.length) report('heading-order', 'Page has headings but no level-1 heading');
+    if (h1s.length > 1) report('heading-order', `Page has ${h1s.length} level-1 headings`, h1s[1]);
+  }
+  if (enabled('heading-order')) {
+    let previous = 0;
+    for (const h of headings) {
+      const level = levelOf(h);
+      if (previous && level > previous + 1) report('heading-order', `Heading level jumps from h${previous} to h${level}`, h);
+      previous = level;
+    }
+  }
+  if (enabled('empty-heading')) {
+    for (const h of headings) if (!accessibleName(h)) report('empty-heading', 'Heading has no text', h);
+  }
+
+  // 1.3.1 - landmarks (whole page only)
+  if (enabled('landmarks') && !selector) {
+    const mains = all('main, [role="main"]').filter(m => !hidden(m));
+    if (!mains.length) report('landmarks', 'Page has no main landmark (<main> or role="main")');
+    if (mains.length > 1) report('landmarks', `Page has ${mains.length} main landmarks`, mains[1]);
+    const topLevel = (sel: string, role: string) => all(`${sel}, [role="${role}"]`).filter(el => !hidden(el) && (el.getAttribute('role') === role || !el.closest('article, aside, main, nav, section')));
+    for (const [sel, role] of [['header', 'banner'], ['footer', 'contentinfo']]) {
+      const found = topLevel(sel, role);
+      if (found.length > 1) report('landmarks', `Page has ${found.length} ${role} landmarks`, found[1]);
+    }
+    const unlabeledNavs = all('nav, [role="navigation"]').filter(n => !hidden(n) && !n.getAttribute('aria-label') && !n.getAttribute('aria-labelledby'));
+    if (unlabeledNavs.length > 1) report('landmarks', `${unlabeledNavs.length} navigation landmarks without aria-label to tell them apart`, unlabeledNavs[1]);
+  }
+
+  // 4.1.1 - duplicate ids
+  if (enabled('duplicate-id')) {
+    const seen = new Map<string, number>();
+    for (const el of all('[id]')) seen.set(el.id, (seen.get(el.id) || 0) + 1);
+    for (const [id, count] of seen) {
+      if (count < 2 || !id) continue;
+      const referenced = !!document.querySelector(`[for="${CSS.escape(id)}"], [aria-labelledby~="${CSS.escape(id)}"], [aria-describedby~="${CSS.escape(id)}"], [aria-controls~="${CSS.escape(id)}"]`);
+      report('duplicate-id', `id "${id}" is used ${count} times${referenced ? ' and referenced by a label/aria attribute' : ''}`, root.querySelector(`#${CSS.escape(id)}`) || undefined);
+    }
+  }
+
+  // 4.1.2 / 2.4.4 - accessible names
+  if (enabled('button-name')) {
+    for (const el of all('button, [role="button"], input[type="button"], input[type="submit"], input[type="reset"]')) {
+      if (!hidden(el) && !accessibleName(el)) report('button-name', 'Button has no accessible name', el);
+    }
+  }
+  if (enabled('link-name')) {
+    for (const el of all('a[href], [role="link"]')) {
+      if (!hidden(el) && !accessibleName(el)) report('link-name', 'Link has no accessible name', el);
+    }
+  }
+
+  // 4.1.2 - ARIA roles
+  if (enabled('aria-role')) {
+    const valid = new Set(('alert alertdialog application article banner blockquote button caption cell checkbox code columnheader combobox comment ' +
+      'complementary contentinfo definition deletion dialog directory document emphasis feed figure form generic grid gridcell group heading img ' +
+      'insertion link list listbox listitem log main mark marquee math menu menubar menuitem menuitemcheckbox menuitemradio meter navigation none ' +
+      'note option paragraph presentation progressbar radio radiogroup region row rowgroup rowheader scrollbar search searchbox separator slider ' +
+      'spinbutton status strong subscript superscript switch tab table tablist tabpanel term textbox time timer toolbar tooltip tree treegrid treeitem').split(' '));
+    const abstract = new Set('command composite input landmark range roletype section sectionhead select structure widget window'.split(' '));
+    for (const el of all('[role]')) {
+      const roles = clean(el.getAttribute('role')).split(' ').filter(Boolean);
+      // The first recognised token wins; fallbacks after it are fine
+      const first = roles[0];
+      if (!first) report('aria-role', 'Empty role attribute', el);
+      else if (abstract.has(first)) report('aria-role', `Abstract role "${first}" must not be used in content`, el);
+      else if (!valid.has(first) && !/^(doc|graphics)-/.test(first)) report('aria-role', `Unknown role "${first}"`, el);
+    }
+  }
+
+  // 3.1.1 / 2.4.2 - document
+  if (enabled('html-lang') && !selector && !clean(document.documentElement.getAttribute('lang'))) report('html-lang', '<html> has no lang attribute');
+  if (enabled('document-title') && !selector && !clean(document.title)) report('document-title', 'Page has no title');
+
+  // 1.4.3 / 1.4.6 - text contrast against the first opaque background behind it
+  if (enabled('color-contrast') || enabled('color-contrast-enhanced')) {
+    const parse = (color: string): number[] | null => {
+      const m = color.match(/rgba?\(([^)]+)\)/);
+      if (!m) return null;
+      const parts = m[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+      return [parts[0], parts[1], parts[2], parts.length > 3 ? parts[3] : 1];
+    };
+    const luminance = ([r, g, b]: number[]) => {
+      const c = [r, g, b].map(v => { const s = v / 255; return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4); });
+      return 0.2126 * c[0] + 0.7152 * c[1] + 0.0722 * c[2];
+    };
+    const blend = (fg: number[], bg: number[]) => [0, 1, 2].map(i => fg[i] * fg[3] + bg[i] * (1 - fg[3])).concat(1);
+    const background = (el: Element | null): number[] | null => {
+      const layers: number[][] = [];
+      for (let node = el; node; node = node.parentElement) {
+        const style = getComputedStyle(node);
+        if (style.backgroundImage && style.backgroundImage !== 'none') return null; // Can't tell - skip
+        const color = parse(style.backgroundColor);
+        if (color && color[3] > 0) {
+          layers.push(color);
+          if (color[3] >= 1) break;
+        }
+      }
+      return layers.reverse().reduce((bg, layer) => blend(layer, bg), [255, 255, 255, 1]);
+    };
+
+    const checked = new Set<Element>();
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const el = node.parentElement;
+      if (!el || checked.has(el) || !clean(node.textContent) || ['SCRIPT', 'STYLE', 'NOSCRIPT', 'OPTION'].includes(el.tagName)) continue;
+      checked.add(el);
+      if (hidden(el) || (el as HTMLButtonElement).disabled || el.closest('[aria-disabled="true"]')) continue;
+      const style = getComputedStyle(el);
+      const fg = parse(style.color);
+      const bg = background(el);
+      if (!fg || !bg) continue;
+      const text = blend(fg, bg);
+      const [l1, l2] = [luminance(text), luminance(bg)].sort((a, b) => b - a);
+      const ratio = (l1 + 0.05) / (l2 + 0.05);
+      const size = parseFloat(style.fontSize);
+      const large = size >= 24 || (size >= 18.66 && parseInt(style.fontWeight) >= 700);
+      const shown = `${ratio.toFixed(2)}:1 (${large ? 'large' : 'normal'} text)`;
+      if (enabled('color-contrast') && ratio < (large ? 3 : 4.5)) report('color-contrast', `Contrast ${shown} below ${large ? '3' : '4.5'}:1`, el);
+      else if (enabled('color-contrast-enhanced') && ratio < (large ? 4.5 : 7)) report('color-contrast-enhanced', `Contrast ${shown} below ${large ? '4.5' : '7'}:1`, el);
+    }
+  }
+
+  // Say how many were left out when a rule hit the cap
+  for (const [rule, count] of Object.entries(counts)) {
+    if (count > maxPerRule) findings.push({ rule, message: `... and ${count - maxPerRule} more` });
+  }
+  return findings;
+}
@@ -2,24 +2,28 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { AIObservation, AIAction, ExplorationSession } from '../types/ai';
 import { Observation } from '../types';
+import { AITransport, createTransport } from './ai-transports';
+import { validateAIAction } from '../utils/action-validator';
 
 /**
- * Handles communication between fe-pilot and AI (Claude Code)
- * Uses file-based protocol for simplicity and reliability
+ * Handles communication between fe-pilot and AI (Claude Code).
+ * Observations and actions go through an AITransport (file protocol by
+ * default); session.json, status.txt and bug reports always stay on disk.
  */
 export class AICommunicator {
   private sessionDir: string;
-  private observationFile: string;
-  private actionFile: string;
   private statusFile: string;
   private bugReportFile: string;
+  private actionErrorFile: string;
+  private transport: AITransport;
+  private readonly AI_TIMEOUT = 300000;
 
-  constructor(private session: ExplorationSession, private debug: boolean = false) {
+  constructor(private session: ExplorationSession, private debug: boolean = false, transport?: AITransport) {
     this.sessionDir = session.sessionDir;
-    this.observationFile = path.join(this.sessionDir, 'observation.json');
-    this.actionFile = path.join(this.sessionDir, 'action.json');
     this.statusFile = path.join(this.sessionDir, 'status.txt');
     this.bugReportFile = path.join(this.sessionDir, 'bug-report.json');
+    this.actionErrorFile = path.join(this.sessionDir, 'action-error.json');
+    this.transport = transport || createTransport('file', { sessionDir: this.sessionDir, debug });
 
     // Ensure session directory exists
     if (!fs.existsSync(this.sessionDir)) {
@@ -29,11 +33,18 @@ export class AICommunicator {
     if (this.debug) {
       console.log(`\n🔍 DEBUG MODE ENABLED`);
       console.log(`📁 Session directory: ${this.sessionDir}`);
-      console.log(`📄 Observation file: ${this.observationFile}`);
-      console.log(`📝 Action file: ${this.actionFile}\n`);
+      console.log(`🔌 AI transport: ${this.transport.name}`);
     }
   }
 
+  async open(): Promise<void> {
+    await this.transport.open();
+  }
+
+  async close(): Promise<void> {
+    await this.transport.close(this.session.status);
+  }
+
   /**
    * Convert Observation to AIObservation format
    */
@@ -51,6 +62,7 @@ export class AICommunicator {
         title: observation.domState.title,
         buttons: observation.domState.buttons,
         inputs: observation.domState.inputs,
+        fillable: observation.domState.fillable,
         links: observation.domState.links,
         visibleText: observation.domState.visibleText,
         interactiveElementsSummary: observation.domState.interactiveElementsSummary,
@@ -66,6 +78,9 @@ export class AICommunicator {
         method: req.method,
         status: req.status,
         duration: req.duration,
+        ...(req.status >= 400
+          ? { requestHeaders: req.requestHeaders, requestBody: req.requestBody, responseBody: req.responseBody }
+          : {}),
       })),
       newErrors: {
         consoleErrors: observation.newConsoleLogs.filter((l) => l.type === 'error')
@@ -77,6 +92,7 @@ export class AICommunicator {
       previousActions: previousActions.map((a) => ({
         action: a.action,
         selector: a.selector,
+        element: a.element,
         value: a.value,
         url: a.url,
         description: a.description,
@@ -92,21 +108,20 @@ export class AICommunicator {
     console.log(`📍 Current URL: ${observation.currentUrl}`);
     console.log(`📊 New Errors: ${observation.newErrors.consoleErrors} console, ${observation.newErrors.networkErrors} network`);
 
-    // Write observation to file
-    fs.writeFileSync(this.observationFile, JSON.stringify(observation, null, 2));
-
-    // Write status
     this.setStatus('WAITING_FOR_AI');
-
     console.log(`\n⏳ Waiting for AI analysis...`);
-    console.log(`📄 Observation saved: ${this.observationFile}`);
+    await this.transport.send(observation);
     console.log(`📸 Screenshot: ${observation.screenshot}`);
-    console.log(
-      `\n💡 For AI to continue, create: ${this.actionFile}`,
-    );
+    console.log(`\n💡 ${this.transport.instructions()}`);
 
     // Wait for AI response
-    const action = await this.waitForAction();
+    const action = await this.receiveAction(observation.stepNumber);
+    this.setStatus('RUNNING');
+
+    if (this.debug) {
+      console.log(`📋 Action type: ${action.decision}`);
+      console.log(`📝 Actions to execute: ${action.actions?.length || 0}\n`);
+    }
 
     console.log(`\n✅ AI Decision: ${action.decision}`);
     console.log(`💭 Reasoning: ${action.reasoning}`);
@@ -120,54 +135,32 @@ export class AICommunicator {
   }
 
   /**
-   * Wait for AI to create action.json file
+   * Wait for a valid action. An invalid one (bad JSON, unknown decision or
+   * action, missing fields) is explained in action-error.json and the wait
+   * goes on, within the same overall timeout.
    */
-  private async waitForAction(timeout: number = 300000): Promise<AIAction> {
-    const startTime = Date.now();
-    const pollInterval = 1000; // Check every second
-    let pollCount = 0;
-
-    if (this.debug) {
-      console.log(`\n⏳ DEBUG: Waiting for action.json (timeout: ${timeout / 1000}s)...`);
-      console.log(`📍 Polling ${this.actionFile} every ${pollInterval}ms`);
-    }
-
-    while (Date.now() - startTime < timeout) {
-      pollCount++;
-      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-
-      if (this.debug && pollCount % 10 === 0) {
-        // Log every 10 seconds
-        console.log(`⏳ Still waiting... (${elapsed}s elapsed, ${pollCount} polls)`);
+  private async receiveAction(stepNumber: number): Promise<AIAction> {
+    const deadline = Date.now() + this.AI_TIMEOUT;
+    for (;;) {
+      const text = await this.transport.receive(Math.max(deadline - Date.now(), 0));
+      const result = validateAIAction(text);
+      if (result.action) {
+        if (fs.existsSync(this.actionErrorFile)) fs.unlinkSync(this.actionErrorFile);
+        return result.action;
       }
 
-      if (fs.existsSync(this.actionFile)) {
-        const content = fs.readFileSync(this.actionFile, 'utf8');
-        const action: AIAction = JSON.parse(content);
-
-        // Delete action file after reading
-        fs.unlinkSync(this.actionFile);
-
-        this.setStatus('RUNNING');
-
-        if (this.debug) {
-          console.log(`\n✅ DEBUG: Action received after ${elapsed}s (${pollCount} polls)`);
-          console.log(`📋 Action type: ${action.decision}`);
-          console.log(`📝 Actions to execute: ${action.actions?.length || 0}\n`);
-        }
-
-        return action;
-      }
-
-      // Wait before polling again
-      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+      fs.writeFileSync(this.actionErrorFile, JSON.stringify({
+        stepNumber,
+        timestamp: Date.now(),
+        errors: result.errors,
+        received: text.length > 2000 ? `${text.slice(0, 2000)}...` : text,
+        hint: 'Send a corrected action for the same observation',
+      }, null, 2));
+      this.transport.rejectAction(result.errors);
+      console.log(`\n❌ Invalid AI action - waiting for a corrected one:`);
+      result.errors.forEach((error) => console.log(`   - ${error}`));
+      console.log(`📄 Details: ${this.actionErrorFile}`);
     }
-
-    throw new Error(
-      `AI response timeout after ${timeout / 1000}s. No action.json created.\n` +
-      `Expected file: ${this.actionFile}\n` +
-      `Waited ${pollCount} times (${pollInterval}ms intervals)`
-    );
   }
 
   /**
@@ -178,10 +171,20 @@ export class AICommunicator {
   }
 
   /**
-   * Report bug to AI
+   * Report bug to AI. For network bugs without quoted evidence, the latest
+   * failing request from `observation` (with its payload) is attached.
    */
-  reportBug(bugReport: any): void {
+  reportBug(bugReport: any, observation?: AIObservation): void {
+    const failed = observation?.networkRequests.filter((r) => r.status >= 400).pop();
+    if (failed && bugReport.type === 'network_error' && !bugReport.evidence?.response) {
+      bugReport.evidence = {
+        ...bugReport.evidence,
+        request: bugReport.evidence?.request || `${failed.method} ${failed.url}`,
+        response: { status: failed.status, body: failed.responseBody, requestBody: failed.requestBody },
+      };
+    }
     fs.writeFileSync(this.bugReportFile, JSON.stringify(bugReport, null, 2));
+    this.transport.reportBug(bugReport);
     console.log(`\n🐛 Bug reported: ${this.bugReportFile}`);
   }
 
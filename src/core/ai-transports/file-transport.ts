@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AIObservation } from '../../types/ai';
+import { AITransport, TransportOptions } from './transport';
+
+/**
+ * Original protocol: observation.json is written to the session directory
+ * and action.json is polled every second (and deleted once read). Content
+ * that is not JSON yet gets one more poll, in case it is still being written.
+ */
+export class FileTransport implements AITransport {
+  name = 'file';
+  private observationFile: string;
+  private actionFile: string;
+
+  constructor(private options: TransportOptions) {
+    this.observationFile = path.join(options.sessionDir, 'observation.json');
+    this.actionFile = path.join(options.sessionDir, 'action.json');
+  }
+
+  async open(): Promise<void> {
+    if (this.options.debug) {
+      console.log(`📄 Observation file: ${this.observationFile}`);
+      console.log(`📝 Action file: ${this.actionFile}\n`);
+    }
+  }
+
+  async send(observation: AIObservation): Promise<void> {
+    fs.writeFileSync(this.observationFile, JSON.stringify(observation, null, 2));
+    console.log(`📄 Observation saved: ${this.observationFile}`);
+  }
+
+  async receive(timeout: number): Promise<string> {
+    const startTime = Date.now();
+    const pollInterval = 1000; // Check every second
+    let pollCount = 0;
+    let unparsed: string | null = null;
+
+    if (this.options.debug) {
+      console.log(`\n⏳ DEBUG: Waiting for action.json (timeout: ${timeout / 1000}s)...`);
+      console.log(`📍 Polling ${this.actionFile} every ${pollInterval}ms`);
+    }
+
+    while (Date.now() - startTime < timeout) {
+      pollCount++;
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+      if (this.options.debug && pollCount % 10 === 0) {
+        // Log every 10 seconds
+        console.log(`⏳ Still waiting... (${elapsed}s elapsed, ${pollCount} polls)`);
+      }
+
+      if (fs.existsSync(this.actionFile)) {
+        const content = fs.readFileSync(this.actionFile, 'utf8');
+        if (this.parses(content) || content === unparsed) {
+          // Delete action file after reading
+          fs.unlinkSync(this.actionFile);
+
+          if (this.options.debug) {
+            console.log(`\n✅ DEBUG: Action received after ${elapsed}s (${pollCount} polls)`);
+          }
+          return content;
+        }
+        unparsed = content;
+      }
+
+      // Wait before polling again
+      await new Promise((resolve) => setTimeout(resolve, pollInterval));
+    }
+
+    throw new Error(
+      `AI response timeout after ${timeout / 1000}s. No action.json created.\n` +
+      `Expected file: ${this.actionFile}\n` +
+      `Waited ${pollCount} times (${pollInterval}ms intervals)`
+    );
+  }
+
+  rejectAction(): void {
+    // AICommunicator writes action-error.json next to action.json
+  }
+
+  reportBug(): void {
+    // bug-report.json in the session directory is the file protocol's report
+  }
+
+  async close(): Promise<void> {}
+
+  instructions(): string {
+    return `For AI to continue, create: ${this.actionFile}`;
+  }
+
+  private parses(content: string): boolean {
+    try {
+      JSON.parse(content);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
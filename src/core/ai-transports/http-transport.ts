@@ -0,0 +1,271 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { Duplex } from 'stream';
+import { AIObservation } from '../../types/ai';
+import { AITransport, TransportOptions } from './transport';
+
+const DEFAULT_PORT = 4580;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_FRAME_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Local server on 127.0.0.1 for agents that prefer requests to files:
+ *
+ *   GET  /observation[?wait=ms]  pending observation (204 when there is none)
+ *   POST /action                 AIAction for the pending observation
+ *   GET  /status                 { status, step, waiting, errors } - errors
+ *                                explain why the last action was rejected
+ *   GET  /bug-reports            bug reports so far
+ *   ws   /ws                     observations/bug reports/action errors/end pushed as JSON
+ *                                messages; each text message is an AIAction
+ */
+export class HttpTransport implements AITransport {
+  name = 'http';
+  private server: http.Server | null = null;
+  private sockets = new Set<Duplex>();
+  private pending: AIObservation | null = null;
+  private answered: AIObservation | null = null;  // Pending again if its action is rejected
+  private waiting: ((text: string) => void) | null = null;
+  private queued: string | null = null;  // Answer that arrived before receive() was called
+  private errors: string[] = [];
+  private pollers: Array<() => void> = [];
+  private bugReports: any[] = [];
+  private status = 'STARTING';
+  private port: number;
+
+  constructor(private options: TransportOptions) {
+    this.port = options.port ?? DEFAULT_PORT;
+  }
+
+  async open(): Promise<void> {
+    // A bad request or a client that went away is logged and answered; it never ends the exploration
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.log(`⚠️  AI transport: ${req.method} ${req.url} failed: ${(error as Error).message}`);
+        if (!res.headersSent && !res.destroyed) {
+          res.writeHead(400, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: (error as Error).message }));
+        } else {
+          res.destroy();
+        }
+      });
+    });
+    this.server.on('upgrade', (req, socket) => {
+      try {
+        this.upgrade(req, socket);
+      } catch (error) {
+        console.log(`⚠️  AI transport: WebSocket upgrade failed: ${(error as Error).message}`);
+        socket.destroy();
+      }
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, '127.0.0.1', () => resolve());
+    });
+    this.port = (this.server.address() as { port: number }).port;
+    this.status = 'RUNNING';
+    console.log(`🌐 AI transport listening on http://127.0.0.1:${this.port} (ws://127.0.0.1:${this.port}/ws)`);
+  }
+
+  async send(observation: AIObservation): Promise<void> {
+    this.pending = observation;
+    this.status = 'WAITING_FOR_AI';
+    this.pollers.splice(0).forEach(wake => wake());
+    this.broadcast({ type: 'observation', observation });
+  }
+
+  receive(timeout: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (this.queued) {
+        const action = this.queued;
+        this.queued = null;
+        this.answered = this.pending;
+        this.pending = null;
+        this.status = 'RUNNING';
+        return resolve(action);
+      }
+      const timer = setTimeout(() => {
+        this.waiting = null;
+        reject(new Error(`AI response timeout after ${timeout / 1000}s. No action posted to http://127.0.0.1:${this.port}/action`));
+      }, timeout);
+      this.waiting = (text) => {
+        clearTimeout(timer);
+        this.waiting = null;
+        this.answered = this.pending;
+        this.pending = null;
+        this.status = 'RUNNING';
+        resolve(text);
+      };
+    });
+  }
+
+  rejectAction(errors: string[]): void {
+    this.errors = errors;
+    this.pending = this.answered;
+    this.status = 'WAITING_FOR_AI';
+    this.broadcast({ type: 'action_error', errors });
+  }
+
+  reportBug(bugReport: any): void {
+    this.bugReports.push(bugReport);
+    this.broadcast({ type: 'bug_report', bugReport });
+  }
+
+  async close(status: string): Promise<void> {
+    this.status = status;
+    this.broadcast({ type: 'end', status });
+    this.pollers.splice(0).forEach(wake => wake());
+    for (const socket of this.sockets) socket.end(encodeFrame(Buffer.alloc(0), 0x8));
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    this.server = null;
+  }
+
+  instructions(): string {
+    return `For AI to continue, POST the action to http://127.0.0.1:${this.port}/action (or send it on ws://127.0.0.1:${this.port}/ws)`;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://127.0.0.1:${this.port}`);
+    const json = (status: number, body?: unknown) => {
+      res.writeHead(status, body === undefined ? {} : { 'Content-Type': 'application/json' });
+      res.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+
+    if (req.method === 'GET' && url.pathname === '/observation') {
+      const wait = Math.min(parseInt(url.searchParams.get('wait') || '0') || 0, 60000);
+      if (!this.pending && wait > 0) {
+        await new Promise<void>((resolve) => {
+          const wake = () => { clearTimeout(timer); resolve(); };
+          const timer = setTimeout(() => { this.pollers = this.pollers.filter(p => p !== wake); resolve(); }, wait);
+          this.pollers.push(wake);
+        });
+      }
+      return this.pending ? json(200, this.pending) : json(204);
+    }
+    if (req.method === 'POST' && url.pathname === '/action') {
+      let body = '';
+      for await (const chunk of req) body += chunk;
+      try {
+        this.accept(body);
+        return json(202, { accepted: true });
+      } catch (error) {
+        return json(error instanceof SyntaxError ? 400 : 409, { error: (error as Error).message });
+      }
+    }
+    if (req.method === 'GET' && url.pathname === '/status') {
+      return json(200, { status: this.status, step: this.pending?.stepNumber ?? null, waiting: !!this.waiting, errors: this.errors });
+    }
+    if (req.method === 'GET' && url.pathname === '/bug-reports') return json(200, this.bugReports);
+    json(404, { error: `No route ${req.method} ${url.pathname}` });
+  }
+
+  /**
+   * Hand an action (JSON text) to the waiting explorer. Invalid JSON is
+   * refused right away; everything else is checked by AICommunicator.
+   */
+  private accept(text: string): void {
+    JSON.parse(text);
+    if (this.waiting) { this.errors = []; this.waiting(text); }
+    else if (this.pending && !this.queued) { this.errors = []; this.queued = text; }
+    else throw new Error('No observation is waiting for an action');
+  }
+
+  private upgrade(req: http.IncomingMessage, socket: Duplex): void {
+    const key = req.headers['sec-websocket-key'];
+    if (req.url?.split('?')[0] !== '/ws' || typeof key !== 'string') { socket.destroy(); return; }
+    const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+    this.sockets.add(socket);
+    if (this.pending) socket.write(encodeFrame(JSON.stringify({ type: 'observation', observation: this.pending })));
+
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (data: Buffer) => {
+      try {
+        buffer = Buffer.concat([buffer, data]);
+        let frame: DecodedFrame | null;
+        while ((frame = decodeFrame(buffer))) {
+          buffer = buffer.subarray(frame.length);
+          if (frame.opcode === 0x8) { socket.end(encodeFrame(Buffer.alloc(0), 0x8)); return; }
+          if (frame.opcode === 0x9) { this.write(socket, encodeFrame(frame.payload, 0xa)); continue; }
+          if (frame.opcode !== 0x1) continue;
+          try {
+            this.accept(frame.payload.toString('utf8'));
+          } catch (error) {
+            this.write(socket, encodeFrame(JSON.stringify({ type: 'error', error: (error as Error).message })));
+          }
+        }
+      } catch (error) {
+        // Malformed frame: close with 1002 (protocol error)
+        console.log(`⚠️  AI transport: closing WebSocket: ${(error as Error).message}`);
+        const code = Buffer.alloc(2);
+        code.writeUInt16BE(1002);
+        socket.end(encodeFrame(code, 0x8));
+        this.sockets.delete(socket);
+      }
+    });
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', (error) => {
+      if (this.options.debug) console.log(`⚠️  DEBUG: WebSocket error: ${error.message}`);
+      this.sockets.delete(socket);
+    });
+  }
+
+  private broadcast(message: Record<string, unknown>): void {
+    const frame = encodeFrame(JSON.stringify(message));
+    for (const socket of this.sockets) this.write(socket, frame);
+  }
+
+  private write(socket: Duplex, frame: Buffer): void {
+    if (socket.destroyed || !socket.writable) { this.sockets.delete(socket); return; }
+    socket.write(frame);
+  }
+}
+
+interface DecodedFrame {
+  opcode: number;
+  payload: Buffer;
+  length: number;  // Bytes the frame took in the buffer
+}
+
+/**
+ * One (unfragmented) WebSocket frame from the start of `buffer`, or null
+ * while it is incomplete
+ */
+function decodeFrame(buffer: Buffer): DecodedFrame | null {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (length > MAX_FRAME_SIZE) throw new Error(`Frame of ${length} bytes exceeds ${MAX_FRAME_SIZE}`);
+  const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+  return { opcode, payload, length: offset + length };
+}
+
+function encodeFrame(data: string | Buffer, opcode: number = 0x1): Buffer {
+  const payload = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode; header[1] = 126; header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode; header[1] = 127; header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
@@ -0,0 +1,23 @@
+import { AITransportName } from '../../types/ai';
+import { AITransport, TransportOptions } from './transport';
+import { FileTransport } from './file-transport';
+import { StdioTransport } from './stdio-transport';
+import { HttpTransport } from './http-transport';
+
+export { AITransport, TransportOptions } from './transport';
+export { PolicyTransport } from './policy-transport';
+
+const TRANSPORTS: Record<AITransportName, (options: TransportOptions) => AITransport> = {
+  file: (options) => new FileTransport(options),
+  stdio: (options) => new StdioTransport(options),
+  http: (options) => new HttpTransport(options),
+};
+
+export const AVAILABLE_TRANSPORTS = Object.keys(TRANSPORTS) as AITransportName[];
+
+export function createTransport(name: string, options: TransportOptions): AITransport {
+  if (!TRANSPORTS[name as AITransportName]) {
+    throw new Error(`Unknown AI transport: ${name}. Available: ${AVAILABLE_TRANSPORTS.join(', ')}`);
+  }
+  return TRANSPORTS[name as AITransportName](options);
+}
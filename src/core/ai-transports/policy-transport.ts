@@ -0,0 +1,44 @@
+import { AIObservation } from '../../types/ai';
+import { ExplorationPolicy } from '../policies';
+import { AITransport } from './transport';
+
+/**
+ * Answers observations with a built-in policy instead of an AI (explore
+ * --policy). Its actions go through the same validation as an AI's.
+ */
+export class PolicyTransport implements AITransport {
+  name: string;
+  private answer: string | null = null;
+
+  constructor(private policy: ExplorationPolicy) {
+    this.name = `policy:${policy.name}`;
+  }
+
+  async open(): Promise<void> {}
+
+  async send(observation: AIObservation): Promise<void> {
+    this.answer = JSON.stringify(this.policy.decide(observation));
+  }
+
+  async receive(): Promise<string> {
+    if (this.answer === null) throw new Error(`Policy ${this.policy.name} has no observation to answer`);
+    const answer = this.answer;
+    this.answer = null;
+    return answer;
+  }
+
+  rejectAction(errors: string[]): void {
+    // A policy bug, not something to wait out
+    throw new Error(`Policy ${this.policy.name} produced an invalid action: ${errors.join('; ')}`);
+  }
+
+  reportBug(): void {}
+
+  async close(): Promise<void> {
+    this.policy.summary().forEach(line => console.log(line));
+  }
+
+  instructions(): string {
+    return `Decided by the built-in ${this.policy.name} policy`;
+  }
+}
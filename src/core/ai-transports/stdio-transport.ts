@@ -0,0 +1,80 @@
+import * as readline from 'readline';
+import { AIObservation } from '../../types/ai';
+import { AITransport, TransportOptions } from './transport';
+
+/**
+ * JSON lines over the process's own pipes, for harnesses that spawn
+ * fe-pilot: `{"type":"observation",...}` / `{"type":"bug_report",...}` /
+ * `{"type":"action_error",...}` / `{"type":"end",...}` are written to stdout,
+ * and each stdin line is an AIAction (bare or as
+ * `{"type":"action","action":{...}}`). Console output
+ * goes to stderr while the transport is open so stdout stays parseable.
+ */
+export class StdioTransport implements AITransport {
+  name = 'stdio';
+  private lines: string[] = [];
+  private waiting: ((line: string | null) => void) | null = null;
+  private ended = false;
+  private reader: readline.Interface | null = null;
+  private originalLog = console.log;
+  private originalInfo = console.info;
+
+  constructor(private options: TransportOptions) {}
+
+  async open(): Promise<void> {
+    console.log = console.info = (...args: any[]) => console.error(...args);
+    this.reader = readline.createInterface({ input: process.stdin, terminal: false });
+    this.reader.on('line', (line) => {
+      if (!line.trim()) return;
+      if (this.waiting) { const resolve = this.waiting; this.waiting = null; resolve(line); } else this.lines.push(line);
+    });
+    this.reader.on('close', () => {
+      this.ended = true;
+      if (this.waiting) { const resolve = this.waiting; this.waiting = null; resolve(null); }
+    });
+  }
+
+  async send(observation: AIObservation): Promise<void> {
+    this.write({ type: 'observation', observation });
+  }
+
+  async receive(timeout: number): Promise<string> {
+    const line = this.lines.shift() ?? (this.ended ? null : await this.nextLine(timeout));
+    if (line === null) throw new Error('AI closed stdin before sending an action');
+    if (this.options.debug) console.log(`\n✅ DEBUG: Action line received (${line.length} chars)`);
+    return line;
+  }
+
+  rejectAction(errors: string[]): void {
+    this.write({ type: 'action_error', errors });
+  }
+
+  reportBug(bugReport: any): void {
+    this.write({ type: 'bug_report', bugReport });
+  }
+
+  async close(status: string): Promise<void> {
+    this.write({ type: 'end', status });
+    this.reader?.close();
+    console.log = this.originalLog;
+    console.info = this.originalInfo;
+  }
+
+  instructions(): string {
+    return 'For AI to continue, write one AIAction JSON line to stdin';
+  }
+
+  private nextLine(timeout: number): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiting = null;
+        reject(new Error(`AI response timeout after ${timeout / 1000}s. No action line on stdin.`));
+      }, timeout);
+      this.waiting = (line) => { clearTimeout(timer); resolve(line); };
+    });
+  }
+
+  private write(message: Record<string, unknown>): void {
+    process.stdout.write(JSON.stringify(message) + '\n');
+  }
+}
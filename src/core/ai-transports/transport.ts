@@ -0,0 +1,23 @@
+import { AIObservation } from '../../types/ai';
+
+/**
+ * How observations reach the AI and its actions come back. The explorer
+ * sends one observation, then waits for one action - raw text, checked by
+ * AICommunicator, which calls rejectAction and waits again when invalid.
+ */
+export interface AITransport {
+  name: string;
+  open(): Promise<void>;
+  send(observation: AIObservation): Promise<void>;
+  receive(timeout: number): Promise<string>;
+  rejectAction(errors: string[]): void;
+  reportBug(bugReport: any): void;
+  close(status: string): Promise<void>;
+  instructions(): string;  // Where the AI should answer, for the console
+}
+
+export interface TransportOptions {
+  sessionDir: string;
+  debug?: boolean;
+  port?: number;  // http transport (default 4580)
+}
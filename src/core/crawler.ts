@@ -0,0 +1,246 @@
+import { Browser, BrowserContext, Page } from 'playwright';
+import * as path from 'path';
+import * as fs from 'fs';
+import { BrowserName, CrawlPage, CrawlReport } from '../types';
+import { Observer } from './observer';
+import { getBrowserType } from '../utils/browsers';
+
+export interface CrawlerOptions {
+  depth?: number;          // Link hops from the start URL (default 3)
+  sameOrigin?: boolean;    // Only follow links on the start URL's origin
+  include?: RegExp[];      // Only pages matching one of these (start URL always visited)
+  exclude?: RegExp[];
+  maxPages?: number;       // Page budget (default 50)
+  checkExternal?: boolean; // With sameOrigin: still request off-origin links to find broken ones
+  browser?: BrowserName;
+  headless?: boolean;
+  outputDir?: string;
+  timeout?: number;        // Per page load (default 30000)
+}
+
+// Linked files that are requested for their status only, never opened as pages
+const RESOURCE_PATTERN = /\.(pdf|zip|gz|tar|rar|7z|png|jpe?g|gif|svg|webp|ico|mp[34]|webm|mov|avi|docx?|xlsx?|pptx?|csv|json|xml|txt|woff2?|ttf|css|js)$/i;
+
+/**
+ * Breadth-first site crawl over a[href]: one Observer observation per page
+ * (console errors, failed requests, load performance), a site map of page
+ * links and the links that answered 4xx/5xx
+ */
+export class Crawler {
+  private browser: Browser | null = null;
+  private context: BrowserContext | null = null;
+  private page: Page | null = null;
+  private observer: Observer | null = null;
+  private linkedFrom = new Map<string, Set<string>>();
+  private statuses = new Map<string, { status?: number; error?: string }>();
+
+  constructor(private options: CrawlerOptions = {}) {}
+
+  async crawl(url: string): Promise<CrawlReport> {
+    const startTime = Date.now();
+    const start = this.normalize(url);
+    if (!start) throw new Error(`Not an http(s) URL: ${url}`);
+    const origin = new URL(start).origin;
+    const maxDepth = this.options.depth ?? 3;
+    const maxPages = this.options.maxPages ?? 50;
+    const outputDir = this.options.outputDir || path.join(process.cwd(), 'fe-pilot-crawl');
+
+    console.log(`\n🕸️  fe-pilot - Site Crawl\n`);
+    console.log(`📍 Start: ${start}`);
+    console.log(`🔢 Depth: ${maxDepth}, max pages: ${maxPages}${this.options.sameOrigin ? ', same origin only' : ''}\n`);
+
+    this.browser = await getBrowserType(this.options.browser).launch({ headless: this.options.headless !== false });
+    this.context = await this.browser.newContext({ viewport: { width: 1280, height: 720 } });
+    this.page = await this.context.newPage();
+    this.observer = new Observer(this.page, path.join(outputDir, 'screenshots'));
+
+    const report: CrawlReport = {
+      startUrl: start, startTime, duration: 0, pages: [], edges: [], brokenLinks: [],
+      skipped: { external: 0, filtered: 0, tooDeep: 0, overBudget: 0 },
+    };
+    const queued = new Set<string>([start]);
+    const queue: Array<{ url: string; depth: number }> = [{ url: start, depth: 0 }];
+    const statusOnly: string[] = []; // Requested for their status, not opened
+
+    try {
+      while (queue.length && report.pages.length < maxPages) {
+        const { url: pageUrl, depth } = queue.shift()!;
+        const page = await this.visit(pageUrl, depth, report.pages.length + 1);
+        report.pages.push(page);
+        this.printPage(page, report.pages.length);
+
+        for (const link of page.links) {
+          report.edges.push({ from: pageUrl, to: link });
+          if (!this.linkedFrom.has(link)) this.linkedFrom.set(link, new Set());
+          this.linkedFrom.get(link)!.add(pageUrl);
+          if (queued.has(link)) continue;
+          queued.add(link);
+
+          if (this.options.sameOrigin && new URL(link).origin !== origin) {
+            report.skipped.external++;
+            if (this.options.checkExternal) statusOnly.push(link);
+          } else if (!this.matchesFilters(link)) {
+            report.skipped.filtered++;
+          } else if (RESOURCE_PATTERN.test(new URL(link).pathname)) {
+            statusOnly.push(link);
+          } else if (depth + 1 > maxDepth) {
+            report.skipped.tooDeep++;
+            statusOnly.push(link);
+          } else {
+            queue.push({ url: link, depth: depth + 1 });
+          }
+        }
+      }
+      report.skipped.overBudget = queue.length;
+      statusOnly.push(...queue.map(q => q.url));
+
+      // Files, the frontier (too deep / over budget) and, with --check-external, off-origin links
+      for (const link of statusOnly) {
+        this.statuses.set(link, await this.requestStatus(link));
+      }
+    } finally {
+      await this.close();
+    }
+
+    for (const [link, result] of this.statuses) {
+      if (result.error || (result.status !== undefined && result.status >= 400)) {
+        report.brokenLinks.push({ url: link, ...result, foundOn: [...(this.linkedFrom.get(link) || [])] });
+      }
+    }
+    report.duration = Date.now() - startTime;
+    return report;
+  }
+
+  /**
+   * Write <outputDir>/crawl-<timestamp>.json and a Graphviz site map next to it
+   */
+  static save(report: CrawlReport, outputDir: string): { json: string; dot: string } {
+    fs.mkdirSync(outputDir, { recursive: true });
+    const base = path.join(outputDir, `crawl-${report.startTime}`);
+    fs.writeFileSync(`${base}.json`, JSON.stringify(report, null, 2));
+
+    const visited = new Set(report.pages.map(p => p.url));
+    const broken = new Set(report.brokenLinks.map(b => b.url));
+    const lines = ['digraph sitemap {', '  rankdir=LR;', '  node [shape=box, fontsize=10];'];
+    for (const page of report.pages) {
+      lines.push(`  ${JSON.stringify(page.url)}${broken.has(page.url) ? ' [color=red]' : page.consoleErrors.length ? ' [color=orange]' : ''};`);
+    }
+    for (const url of broken) if (!visited.has(url)) lines.push(`  ${JSON.stringify(url)} [color=red, style=dashed];`);
+    for (const edge of report.edges) {
+      if (visited.has(edge.to) || broken.has(edge.to)) lines.push(`  ${JSON.stringify(edge.from)} -> ${JSON.stringify(edge.to)};`);
+    }
+    lines.push('}');
+    fs.writeFileSync(`${base}.dot`, lines.join('\n') + '\n');
+    return { json: `${base}.json`, dot: `${base}.dot` };
+  }
+
+  static printSummary(report: CrawlReport): void {
+    const withErrors = report.pages.filter(p => p.consoleErrors.length);
+    const loadTimes = report.pages.map(p => p.loadTime).filter((t): t is number => t !== undefined);
+    const slowest = [...report.pages].filter(p => p.loadTime !== undefined).sort((a, b) => b.loadTime! - a.loadTime!).slice(0, 5);
+
+    console.log(`\n${'='.repeat(80)}`);
+    console.log(`\n🕸️  Crawl finished in ${(report.duration / 1000).toFixed(1)}s`);
+    console.log(`📄 Pages: ${report.pages.length} (${report.edges.length} links)`);
+    console.log(`⏭️  Skipped: ${report.skipped.external} external, ${report.skipped.filtered} filtered, ${report.skipped.tooDeep} too deep, ${report.skipped.overBudget} over budget`);
+    if (loadTimes.length) {
+      console.log(`⏱️  Load: avg ${Math.round(loadTimes.reduce((a, b) => a + b, 0) / loadTimes.length)}ms, slowest:`);
+      slowest.forEach(p => console.log(`   ${p.loadTime}ms  ${p.url}`));
+    }
+    if (report.brokenLinks.length) {
+      console.log(`\n🔗 Broken links (${report.brokenLinks.length}):`);
+      report.brokenLinks.forEach(b => {
+        console.log(`   ❌ ${b.status ?? b.error} ${b.url}`);
+        b.foundOn.slice(0, 3).forEach(from => console.log(`      ↳ on ${from}`));
+      });
+    }
+    if (withErrors.length) {
+      console.log(`\n🐛 Pages with console errors (${withErrors.length}):`);
+      withErrors.forEach(p => {
+        console.log(`   ${p.url}`);
+        p.consoleErrors.slice(0, 3).forEach(e => console.log(`      - ${e.slice(0, 150)}`));
+      });
+    }
+    console.log(`\n${'='.repeat(80)}\n`);
+  }
+
+  private async visit(url: string, depth: number, step: number): Promise<CrawlPage> {
+    const result: CrawlPage = { url, depth, links: [], consoleErrors: [], failedRequests: [] };
+    const started = Date.now();
+    try {
+      const response = await this.page!.goto(url, { waitUntil: 'load', timeout: this.options.timeout || 30000 });
+      result.loadTime = Date.now() - started;
+      result.status = response?.status();
+      await this.page!.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {});
+    } catch (error) {
+      result.error = (error as Error).message.split('\n')[0];
+    }
+    this.statuses.set(url, { status: result.status, error: result.error });
+
+    // A failed load or a client-side redirect can destroy the page mid-evaluate: record it on this page only
+    try {
+      const observation = await this.observer!.captureObservation(step, { action: 'navigate', url });
+      result.title = observation.domState.title;
+      result.performance = observation.performance;
+      result.consoleErrors = observation.newConsoleLogs.filter(l => l.type === 'error').map(l => l.text);
+      result.failedRequests = observation.newNetworkRequests
+        .filter(r => r.status >= 400)
+        .map(r => ({ url: r.url, method: r.method, status: r.status }));
+
+      if (!result.error) {
+        const hrefs: string[] = await this.page!.evaluate(() => Array.from(document.querySelectorAll('a[href]')).map(a => (a as HTMLAnchorElement).href));
+        result.links = [...new Set(hrefs.map(h => this.normalize(h)).filter((h): h is string => !!h && h !== url))];
+      }
+    } catch (error) {
+      result.error = result.error || `Could not inspect page: ${(error as Error).message.split('\n')[0]}`;
+    }
+    return result;
+  }
+
+  /**
+   * Status of a link that is not opened as a page (HEAD, GET when refused)
+   */
+  private async requestStatus(url: string): Promise<{ status?: number; error?: string }> {
+    try {
+      let response = await this.context!.request.fetch(url, { method: 'HEAD', timeout: 10000, maxRedirects: 5 });
+      if ([403, 405, 501].includes(response.status())) {
+        response = await this.context!.request.fetch(url, { method: 'GET', timeout: 10000, maxRedirects: 5 });
+      }
+      return { status: response.status() };
+    } catch (error) {
+      return { error: (error as Error).message.split('\n')[0] };
+    }
+  }
+
+  private matchesFilters(url: string): boolean {
+    if (this.options.exclude?.some(p => p.test(url))) return false;
+    return !this.options.include?.length || this.options.include.some(p => p.test(url));
+  }
+
+  /**
+   * http(s) URL without its hash, or undefined for mailto:, javascript: etc.
+   */
+  private normalize(url: string): string | undefined {
+    try {
+      const parsed = new URL(url);
+      if (!['http:', 'https:'].includes(parsed.protocol)) return undefined;
+      parsed.hash = '';
+      return parsed.href;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private printPage(page: CrawlPage, n: number): void {
+    const status = page.error ? `❌ ${page.error}` : `${page.status && page.status >= 400 ? '❌' : '✅'} ${page.status ?? '-'}`;
+    const errors = page.consoleErrors.length ? `, ${page.consoleErrors.length} console error(s)` : '';
+    const failed = page.failedRequests.length ? `, ${page.failedRequests.length} failed request(s)` : '';
+    console.log(`   ${n}. [d${page.depth}] ${status} ${page.url} (${page.loadTime ?? '-'}ms, ${page.links.length} links${errors}${failed})`);
+  }
+
+  private async close(): Promise<void> {
+    if (this.page) await this.page.close().catch(() => {});
+    if (this.context) await this.context.close().catch(() => {});
+    if (this.browser) await this.browser.close().catch(() => {});
+  }
+}
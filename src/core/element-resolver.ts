@@ -0,0 +1,243 @@
+import { Page } from 'playwright';
+
+export interface ElementQuery {
+  roles: string[];      // ARIA roles named in the description ("button", "link", "field" ...)
+  quoted: string[];     // Quoted text, matched (almost) exactly
+  tokens: string[];     // Other words describing the element itself
+  context: string[];    // Words after "in/inside/within/under/near ..." describing a container
+}
+
+export interface ElementMatch {
+  selector: string;     // Selector for the matched element in the current DOM
+  suggestion: string;   // Readable role selector for the same element
+  label: string;        // e.g. `button "Save" (in: Profile card)`
+}
+
+// What the page reports about each visible element it could mean
+export interface ElementFacts {
+  index: number;        // Position among the ELEMENTS matches, in document order
+  tag: string;
+  role: string;
+  name: string;         // Accessible name
+  extra: string;        // Placeholder/title/name/id/type/classes and preceding text, lower-case
+  context?: string;     // Container text, lower-case (only when the description has context words)
+  title?: string;       // First heading of the containers
+  control?: number;     // For labels: index of the field they name
+}
+
+export interface Candidate {
+  index: number;
+  score: number;
+  role: string;
+  name: string;
+  context: string;
+}
+
+// Elements a description can point at; matches are addressed by position so the page is never modified
+const ELEMENTS = 'button, a, input, select, textarea, summary, label, h1, h2, h3, h4, h5, h6, img, [role], [aria-label], [onclick], [tabindex]';
+
+const ROLE_WORDS: Record<string, string[]> = {
+  button: ['button'], btn: ['button'],
+  link: ['link'],
+  field: ['textbox', 'searchbox', 'spinbutton', 'combobox'], input: ['textbox', 'searchbox', 'spinbutton', 'combobox'],
+  textbox: ['textbox'], textarea: ['textbox'], box: ['textbox', 'searchbox', 'checkbox'],
+  checkbox: ['checkbox'], radio: ['radio'], switch: ['switch', 'checkbox'], toggle: ['switch', 'checkbox'],
+  dropdown: ['combobox', 'listbox', 'button'], select: ['combobox', 'listbox'], combobox: ['combobox'],
+  tab: ['tab'], option: ['option', 'menuitem'], item: ['menuitem', 'option', 'listitem'],
+  heading: ['heading'], title: ['heading'], image: ['img'], icon: ['img', 'button'],
+};
+
+const STOPWORDS = new Set(['the', 'a', 'an', 'that', 'which', 'with', 'containing', 'contains', 'labeled', 'labelled', 'called', 'named', 'says', 'saying', 'text', 'element', 'menu', 'and', 'to', 'for']);
+const CONTEXT_SPLIT = /\s+(?:in|inside|within|under|near|next to|below|above|beside)\s+(?:the\s+|a\s+|an\s+)?/i;
+
+/**
+ * Finds elements from natural-language descriptions ("the Save button in
+ * the profile card") by scoring visible elements on role, accessible name,
+ * label/placeholder text and the text of their containers.
+ */
+export class ElementResolver {
+  constructor(private page: Page) {}
+
+  static parse(description: string): ElementQuery {
+    const quoted: string[] = [];
+    const rest = description.replace(/["“”]([^"“”]+)["“”]|(?<!\w)'([^']+)'(?!\w)/g, (_, double?: string, single?: string) => {
+      quoted.push((double || single || '').trim().toLowerCase());
+      return ' ';
+    });
+    const [target, ...contextParts] = rest.split(CONTEXT_SPLIT);
+    const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}_-]+/u).filter(w => w.length > 1 && !STOPWORDS.has(w));
+
+    const roles = new Set<string>();
+    const tokens: string[] = [];
+    for (const word of words(target)) {
+      const singular = word.replace(/(?<=[^s])s$/, '');
+      if (ROLE_WORDS[singular]) ROLE_WORDS[singular].forEach(r => roles.add(r));
+      else tokens.push(word);
+    }
+    return { roles: [...roles], quoted, tokens, context: words(contextParts.join(' ')) };
+  }
+
+  /**
+   * Score elements against a query on role, accessible name, nearby text and
+   * container text. Best first, at most 10, only those scoring above zero.
+   */
+  static rank(query: ElementQuery, elements: ElementFacts[]): Candidate[] {
+    const scored: Array<Candidate & { facts: ElementFacts }> = [];
+    for (const el of elements) {
+      const nameLower = el.name.toLowerCase();
+      let score = 0;
+
+      if (query.roles.length) score += query.roles.includes(el.role) ? 3 : -3;
+      for (const q of query.quoted) {
+        if (nameLower === q) score += 8;
+        else if (nameLower.includes(q)) score += 5;
+        else if (el.extra.includes(q)) score += 2;
+        else score -= 5;
+      }
+      if (query.tokens.length) {
+        let matched = 0;
+        for (const token of query.tokens) {
+          if (nameLower.includes(token)) { score += 2; matched++; } else if (el.extra.includes(token)) { score += 1; matched++; }
+        }
+        if (!matched) score -= 2;
+        if (nameLower === query.tokens.join(' ')) score += 3;
+      }
+      if (query.context.length) {
+        const hits = query.context.filter(token => (el.context || '').includes(token)).length;
+        score += hits ? (hits / query.context.length) * 4 : -2;
+      }
+      if (score > 0) {
+        scored.push({ index: el.index, score: Math.round(score * 100) / 100, role: el.role, name: el.name, context: query.context.length ? el.title || '' : '', facts: el });
+      }
+    }
+
+    // A label and the field it names describe the same thing - keep the field
+    return scored
+      .filter(c => !(c.facts.tag === 'label' && c.facts.control !== undefined && scored.some(o => o.index === c.facts.control)))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 10)
+      .map(({ facts, ...candidate }) => candidate);
+  }
+
+  /**
+   * Resolve `description`, waiting up to `timeout` for a match. Several
+   * equally good matches are an error listing them, so the description can
+   * be made more specific.
+   */
+  async resolve(description: string, timeout = 10000): Promise<ElementMatch> {
+    const query = ElementResolver.parse(description);
+    if (!query.roles.length && !query.quoted.length && !query.tokens.length) {
+      throw new Error(`Element description "${description}" names nothing to look for`);
+    }
+    const deadline = Date.now() + timeout;
+    let candidates: Candidate[] = [];
+    do {
+      const elements = await this.page.evaluate(describeElements, { selector: ELEMENTS, withContext: query.context.length > 0 });
+      candidates = ElementResolver.rank(query, elements);
+      if (candidates.length) break;
+      await this.page.waitForTimeout(250);
+    } while (Date.now() < deadline);
+
+    if (!candidates.length) throw new Error(`No element matches "${description}"`);
+    const best = candidates.filter(c => c.score === candidates[0].score);
+    if (best.length > 1) {
+      const list = best.slice(0, 5).map(c => `  - ${this.label(c)}`).join('\n');
+      throw new Error(`Element "${description}" is ambiguous - ${best.length} equally good matches:\n${list}\nAdd more detail (e.g. "in the <section>") or quote the exact text`);
+    }
+    const match = candidates[0];
+    return {
+      selector: `css:light=${ELEMENTS} >> nth=${match.index}`,
+      suggestion: `role=${match.role}${match.name ? `[name=${JSON.stringify(match.name)}]` : ''}`,
+      label: this.label(match),
+    };
+  }
+
+  private label(candidate: Candidate): string {
+    return `${candidate.role} "${candidate.name}"${candidate.context ? ` (in: ${candidate.context})` : ''}`;
+  }
+}
+
+/**
+ * In-page collection (serialized by page.evaluate - no outer references).
+ * Describes the visible elements matching `selector`; scoring happens in rank().
+ */
+function describeElements({ selector, withContext }: { selector: string; withContext: boolean }): ElementFacts[] {
+  const clean = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+  const lower = (text: string | null | undefined) => clean(text).toLowerCase();
+
+  const roleOf = (el: Element): string => {
+    const explicit = el.getAttribute('role');
+    if (explicit) return explicit.split(' ')[0];
+    const tag = el.tagName.toLowerCase();
+    const type = (el.getAttribute('type') || 'text').toLowerCase();
+    if (tag === 'button' || (tag === 'input' && ['button', 'submit', 'reset', 'image'].includes(type)) || tag === 'summary') return 'button';
+    if (tag === 'a') return 'link';
+    if (tag === 'select') return 'combobox';
+    if (tag === 'textarea') return 'textbox';
+    if (tag === 'input') {
+      if (type === 'checkbox') return 'checkbox';
+      if (type === 'radio') return 'radio';
+      if (type === 'search') return 'searchbox';
+      if (type === 'number') return 'spinbutton';
+      if (el.hasAttribute('list')) return 'combobox';
+      return 'textbox';
+    }
+    if (/^h[1-6]$/.test(tag)) return 'heading';
+    if (tag === 'img') return 'img';
+    return 'generic';
+  };
+
+  const nameOf = (el: Element): string => {
+    const labelledBy = (el.getAttribute('aria-labelledby') || '').split(/\s+/).map(id => document.getElementById(id)?.textContent).filter(Boolean).join(' ');
+    const labels = (el as HTMLInputElement).labels ? Array.from((el as HTMLInputElement).labels!).map(l => l.textContent).join(' ') : '';
+    const tag = el.tagName.toLowerCase();
+    const buttonValue = tag === 'input' && ['button', 'submit', 'reset'].includes((el as HTMLInputElement).type) ? (el as HTMLInputElement).value : '';
+    const inner = ['input', 'select', 'textarea'].includes(tag) ? '' : (el as HTMLElement).innerText;
+    return clean(el.getAttribute('aria-label') || labelledBy || labels || buttonValue || el.getAttribute('alt') || inner || el.getAttribute('placeholder') || el.getAttribute('title')).slice(0, 120);
+  };
+
+  // Text nearby: placeholder/title/name/id/type/classes and the preceding text for unlabeled fields
+  const extraOf = (el: Element): string => {
+    const prev = el.previousElementSibling ? (el.previousElementSibling as HTMLElement).innerText : '';
+    return lower([el.getAttribute('placeholder'), el.getAttribute('title'), el.getAttribute('name'), el.id, el.getAttribute('type'),
+      typeof el.className === 'string' ? el.className.replace(/[-_]/g, ' ') : '', (prev || '').slice(0, 80)].join(' '));
+  };
+
+  // Containers: tag, id, classes, aria-label and first heading of the closest few ancestors
+  const contextOf = (el: Element): { text: string; title: string } => {
+    const parts: string[] = [];
+    let title = '';
+    let node = el.parentElement;
+    for (let depth = 0; node && node !== document.body && depth < 6; depth++, node = node.parentElement) {
+      const heading = node.querySelector('h1, h2, h3, h4, h5, h6, legend, [role=heading], [class*="title"], [class*="header"]');
+      const headingText = heading && !heading.contains(el) ? clean((heading as HTMLElement).innerText).slice(0, 80) : '';
+      if (headingText && !title) title = headingText;
+      parts.push(node.tagName, node.id, typeof node.className === 'string' ? node.className.replace(/[-_]/g, ' ') : '', node.getAttribute('aria-label') || '', headingText);
+    }
+    return { text: lower(parts.join(' ')), title };
+  };
+
+  const visible = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    const style = getComputedStyle(el);
+    return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+  };
+
+  const elements = Array.from(document.querySelectorAll(selector));
+  const facts: ElementFacts[] = [];
+  elements.forEach((el, index) => {
+    if (!visible(el) || (el as HTMLInputElement).type === 'hidden') return;
+    const context = withContext ? contextOf(el) : undefined;
+    const control = el.tagName === 'LABEL' ? (el as HTMLLabelElement).control : null;
+    facts.push({
+      index,
+      tag: el.tagName.toLowerCase(),
+      role: roleOf(el),
+      name: nameOf(el),
+      extra: extraOf(el),
+      ...(context ? { context: context.text, title: context.title } : {}),
+      ...(control ? { control: elements.indexOf(control) } : {}),
+    });
+  });
+  return facts;
+}
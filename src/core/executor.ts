@@ -1,5 +1,12 @@
 import { Page, Locator } from 'playwright';
-import { Action, Expectation, WaitForOptions, AssertionType, AssertionResult, FormValidation, WaitCondition } from '../types';
+import { Action, Expectation, WaitForOptions, AssertionType, AssertionResult, FormValidation, WaitCondition, StepCondition, NetworkRequest, SelectorMatch } from '../types';
+import { RouteMocker } from './route-mocker';
+import { Observer } from './observer';
+import { VisualComparator } from './visual';
+import { AccessibilityAuditor, SEVERITIES } from './accessibility';
+import { checkNetwork } from '../utils/network-match';
+import { candidateSelector } from '../utils/selectors';
+import { ElementResolver } from './element-resolver';
 
 interface FieldInfo {
   selector: string;
@@ -15,6 +22,9 @@ interface FieldInfo {
   options?: string[];
 }
 
+// Assertions that need their element to exist, so a fallback selector may stand in
+const HEALABLE_ASSERTIONS: AssertionType[] = ['element_visible', 'element_text', 'element_value', 'element_enabled', 'element_disabled', 'element_checked'];
+
 export class ActionExecutor {
   private lastUrl: string = '';
   private lastProgressIndicator: string = '';
@@ -23,12 +33,20 @@ export class ActionExecutor {
   private actionRepeatCount: number = 0;
   private readonly MAX_ACTION_REPEATS = 3;
   private readonly DEFAULT_TIMEOUT = 10000;
-  private selectorCache: Map<string, string> = new Map();
-
-  constructor(private page: Page) {}
+  private readonly HEALING_GRACE = 3000; // How long the primary selector gets before fallbacks are tried
+  private selectorCache: Map<string, string> = new Map(); // Primary selector -> fallback that matched
+  private lastSelectorMatch: SelectorMatch | undefined;
+
+  constructor(
+    private page: Page,
+    private mocker: RouteMocker = new RouteMocker(page),
+    private observer?: Observer,
+    private visual?: VisualComparator,
+    private a11y: AccessibilityAuditor = new AccessibilityAuditor(page)
+  ) {}
 
   async execute(action: Action): Promise<void> {
-    const actionKey = `${action.action}:${action.selector || ''}:${action.value || ''}`;
+    const actionKey = `${action.action}:${action.selector || action.element || ''}:${action.value || ''}`;
     if (actionKey === this.lastAction) {
       this.actionRepeatCount++;
       if (this.actionRepeatCount >= this.MAX_ACTION_REPEATS) {
@@ -41,11 +59,13 @@ export class ActionExecutor {
 
     const maxAttempts = action.retry?.maxAttempts || 1;
     const backoff = action.retry?.backoff || 1000;
+    this.lastSelectorMatch = undefined;
 
     let lastError: Error | undefined;
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
-        await this.executeOnce(action);
+        // Assertions resolve their own selector (runAssertion)
+        await this.executeOnce(action.action === 'assert' ? action : await this.resolveSelector(action));
         if (action.wait_for) {
           await this.handleWaitFor(action.wait_for);
         }
@@ -61,6 +81,104 @@ export class ActionExecutor {
     throw new Error(`Action failed after ${maxAttempts} attempts: ${lastError?.message}`);
   }
 
+  /**
+   * Evaluate an `if` condition. Assertions are checked once; wait conditions
+   * count as met if they resolve within the (short) timeout.
+   */
+  async evaluateCondition(when: StepCondition): Promise<boolean> {
+    let met = false;
+    if (when.assert_type) {
+      const result = await this.runAssertion(when.assert_type, {
+        action: 'assert', selector: when.selector, expected: when.expected ?? when.value,
+      }, when.timeout || 2000);
+      met = result.passed;
+    } else if (when.condition) {
+      try {
+        await this.handleSingleWait({ condition: when.condition, selector: when.selector, value: when.value, timeout: when.timeout || 2000 });
+        met = true;
+      } catch {
+        met = false;
+      }
+    }
+    return when.negate ? !met : met;
+  }
+
+  /**
+   * Which selector the last step matched (only for steps with fallbacks)
+   */
+  takeSelectorMatch(): SelectorMatch | undefined {
+    const match = this.lastSelectorMatch;
+    this.lastSelectorMatch = undefined;
+    return match;
+  }
+
+  /**
+   * Self-healing: for steps with fallbacks (or whose selector was healed
+   * earlier in the run) use the first candidate that matches. The primary
+   * selector gets a grace period before any alternative is considered.
+   * An `element` description targets the step on its own, or is the last
+   * resort when no selector matches.
+   */
+  private async resolveSelector(action: Action): Promise<Action> {
+    const timeout = action.timeout || this.DEFAULT_TIMEOUT;
+    if (!action.selector) {
+      if (!action.element) return action;
+      const match = await new ElementResolver(this.page).resolve(action.element, timeout);
+      console.log(`   🔎 "${action.element}" → ${match.label}`);
+      return { ...action, selector: match.selector };
+    }
+    const cached = this.selectorCache.get(action.selector);
+    if (!action.fallbacks?.length && !cached && !action.element) return action;
+
+    const candidates = [...new Set([action.selector, ...(cached ? [cached] : []), ...(action.fallbacks || []).map(candidateSelector)])];
+    const grace = cached ? 0 : Math.min(timeout, this.HEALING_GRACE);
+    const matched = await this.firstMatching(candidates, grace, timeout);
+    if (!matched) {
+      if (!action.element) throw new Error(`No selector matched: ${candidates.join(' | ')}`);
+      const match = await new ElementResolver(this.page).resolve(action.element, 0).catch((error: Error) => {
+        throw new Error(`No selector matched: ${candidates.join(' | ')}; ${error.message}`);
+      });
+      console.log(`   🩹 Healed selector: ${action.selector} → ${match.label} (from element description)`);
+      this.lastSelectorMatch = { original: action.selector, matched: match.suggestion, healed: true };
+      return { ...action, selector: match.selector };
+    }
+
+    const healed = matched !== action.selector;
+    this.lastSelectorMatch = { original: action.selector, matched, healed };
+    if (!healed) return action;
+    if (cached !== matched) console.log(`   🩹 Healed selector: ${action.selector} → ${matched}`);
+    this.selectorCache.set(action.selector, matched);
+    return { ...action, selector: matched };
+  }
+
+  private async firstMatching(candidates: string[], grace: number, timeout: number): Promise<string | undefined> {
+    if (grace > 0) {
+      try {
+        await this.page.locator(candidates[0]).first().waitFor({ state: 'attached', timeout: grace });
+        return candidates[0];
+      } catch {
+        // Primary not there (yet) - try all candidates
+      }
+    }
+    const deadline = Date.now() + Math.max(timeout - grace, 0);
+    do {
+      for (const selector of candidates) {
+        if (await this.page.locator(selector).count().catch(() => 0) > 0) return selector;
+      }
+      await this.page.waitForTimeout(250);
+    } while (Date.now() < deadline);
+    return undefined;
+  }
+
+  /**
+   * Forget the last action so explicit loops (repeat/for_each) don't trip
+   * the repeated-action guard
+   */
+  resetRepeatTracking(): void {
+    this.lastAction = '';
+    this.actionRepeatCount = 0;
+  }
+
   private async handleWaitFor(waitFor: WaitForOptions | WaitForOptions[]): Promise<void> {
     const conditions = Array.isArray(waitFor) ? waitFor : [waitFor];
     // Run independent waits in parallel for speed
@@ -79,6 +197,18 @@ export class ActionExecutor {
       case 'element_hidden':
         if (condition.selector) await this.page.waitForSelector(condition.selector, { state: 'hidden', timeout });
         break;
+      case 'element_enabled':
+        if (condition.selector) {
+          await this.page.waitForFunction(
+            (sel) => { const el = document.querySelector(sel) as any; return !!el && !el.disabled; },
+            condition.selector,
+            { timeout }
+          );
+        }
+        break;
+      case 'url_matches':
+        if (condition.value) await this.page.waitForURL(new RegExp(condition.value), { timeout });
+        break;
       case 'url_contains':
         if (condition.value) await this.page.waitForURL(`**/*${condition.value}*`, { timeout });
         break;
@@ -194,6 +324,12 @@ export class ActionExecutor {
       case 'blur':
         await this.blur(action);
         break;
+      case 'mock_route':
+        await this.mocker.add(RouteMocker.fromAction(action));
+        break;
+      case 'unmock_route':
+        await this.mocker.remove(action.url);
+        break;
     }
     if (action.wait_after) {
       await this.page.waitForTimeout(action.wait_after);
@@ -692,9 +828,10 @@ export class ActionExecutor {
     if (!result.passed) throw new Error(`Assertion failed: ${result.message}`);
   }
 
-  async runAssertion(type: AssertionType, action: Action, timeout: number = 10000): Promise<AssertionResult> {
+  async runAssertion(type: AssertionType, action: Action, timeout: number = 10000, network: NetworkRequest[] = []): Promise<AssertionResult> {
     const result: AssertionResult = { type, passed: false, expected: action.expected };
     try {
+      if (HEALABLE_ASSERTIONS.includes(type)) action = await this.resolveSelector({ ...action, timeout: action.timeout || timeout });
       switch (type) {
         case 'element_visible':
           result.passed = await this.page.locator(action.selector!).isVisible({ timeout });
@@ -753,8 +890,12 @@ export class ActionExecutor {
           result.message = result.passed ? 'Title contains expected' : `Title "${title}" missing "${action.expected}"`;
           break;
         case 'no_console_errors':
-          result.passed = true;
-          result.message = 'No console errors (checked in observer)';
+          if (!this.observer) throw new Error('no_console_errors needs an Observer');
+          // Standalone assert steps also cover the step before them
+          const consoleCheck = this.observer.checkConsoleErrors(action.scope, action.action === 'assert');
+          result.passed = consoleCheck.passed;
+          result.message = consoleCheck.message;
+          if (!consoleCheck.passed) result.actual = consoleCheck.violations.map(l => l.text).slice(0, 10);
           break;
         case 'no_validation_errors':
           const errors = await this.detectValidationErrors();
@@ -787,6 +928,29 @@ export class ActionExecutor {
           result.passed = count === Number(action.expected);
           result.message = result.passed ? `Count matches: ${count}` : `Expected ${action.expected} elements, got ${count}`;
           break;
+        case 'network_success':
+        case 'network_request':
+        case 'no_network_request':
+          Object.assign(result, checkNetwork(type, action, network));
+          break;
+        case 'screenshot_matches':
+          if (!this.visual) throw new Error('screenshot_matches needs a baseline store');
+          const named = action.screenshot ? this.observer?.getNamedScreenshot(action.screenshot) : undefined;
+          if (action.screenshot && !named) throw new Error(`No screenshot named "${action.screenshot}" taken yet`);
+          Object.assign(result, await this.visual.compare(action, named));
+          break;
+        case 'a11y_clean':
+          const audit = await this.a11y.audit({ level: action.wcag_level, selector: action.selector, ignoreRules: action.ignore_rules });
+          const minSeverity = SEVERITIES.indexOf(action.min_severity || 'low');
+          const failing = audit.issues.filter(i => SEVERITIES.indexOf(i.severity) <= minSeverity);
+          const below = audit.issues.length - failing.length;
+          const belowNote = below ? ` (${below} below ${action.min_severity} ignored)` : '';
+          result.passed = failing.length === 0;
+          result.message = result.passed
+            ? `No accessibility issues (WCAG ${audit.level}, ${audit.rules.length} rules)${belowNote}`
+            : `${failing.length} accessibility issue(s) at WCAG ${audit.level}${belowNote}: ${failing.slice(0, 3).map(i => AccessibilityAuditor.format(i)).join('; ')}`;
+          if (!result.passed) result.actual = failing.map(i => `${AccessibilityAuditor.format(i)} - WCAG ${i.wcagCriteria}`).slice(0, 20);
+          break;
       }
     } catch (error) {
       result.message = `Assertion error: ${error instanceof Error ? error.message : 'Unknown'}`;
@@ -983,7 +1147,7 @@ export class ActionExecutor {
     await this.page.hover(action.selector);
   }
 
-  async verifyExpectations(expectations: Expectation[]): Promise<{ passed: boolean; failures: string[] }> {
+  async verifyExpectations(expectations: Expectation[], network: NetworkRequest[] = []): Promise<{ passed: boolean; failures: string[] }> {
     const failures: string[] = [];
     // Run verifications in parallel for speed
     const results = await Promise.all(
@@ -1017,6 +1181,18 @@ export class ActionExecutor {
               const errors = await this.detectValidationErrors();
               if (errors.length > 0) return `Validation errors: ${errors.join(', ')}`;
               break;
+            case 'no_console_errors':
+              if (this.observer) {
+                const consoleCheck = this.observer.checkConsoleErrors(exp.scope);
+                if (!consoleCheck.passed) return consoleCheck.message;
+              }
+              break;
+            case 'network_success':
+            case 'network_request':
+            case 'no_network_request':
+              const networkCheck = checkNetwork(exp.type, exp, network);
+              if (!networkCheck.passed) return networkCheck.message;
+              break;
           }
           return null;
         } catch (e) {
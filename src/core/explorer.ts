@@ -1,16 +1,30 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { Browser, BrowserContext, Page } from 'playwright';
 import * as path from 'path';
 import * as fs from 'fs';
-import { ExplorationGoal, ExplorationSession, AIAction } from '../types/ai';
+import { ExplorationGoal, ExplorationSession, AIAction, ResumeMode, AITransportName, ExplorationPolicyName } from '../types/ai';
 import { Observer } from './observer';
 import { ActionExecutor } from './executor';
+import { RouteMocker } from './route-mocker';
 import { AICommunicator } from './ai-communicator';
-import { Action } from '../types';
+import { createTransport, PolicyTransport } from './ai-transports';
+import { createPolicy } from './policies';
+import { Action, ArtifactMode, BrowserName } from '../types';
+import { getBrowserType } from '../utils/browsers';
+import { harRecordOptions, replayHar } from '../utils/har';
+import { startTrace, stopTrace } from '../utils/artifacts';
 
 export interface ExplorerOptions {
   headless?: boolean;
   outputDir?: string;
   debug?: boolean;
+  browser?: BrowserName;
+  recordHar?: string;   // Record the session's traffic to this HAR file
+  replayHar?: string;   // Serve all requests from this HAR file (offline)
+  trace?: ArtifactMode; // Record a Playwright trace to <session>/trace.zip
+  aiTransport?: AITransportName; // How observations/actions are exchanged (default: file)
+  aiPort?: number;      // Port for the http transport
+  policy?: ExplorationPolicyName; // Decide with a built-in policy instead of an AI (offline/CI)
+  avoid?: RegExp;       // Labels the policy never clicks (default: destructive ones)
 }
 
 /**
@@ -31,22 +45,22 @@ export class Explorer {
    * Start autonomous exploration
    */
   async explore(url: string, goal: ExplorationGoal): Promise<ExplorationSession> {
+    // Initialize session (the transport first: stdio moves console output off stdout)
+    this.session = this.createSession(url, goal);
+    await this.connect();
+
     console.log(`\n🤖 fe-pilot - Autonomous Exploration Mode\n`);
     console.log(`🎯 Goal: ${goal.objective}`);
     console.log(`📍 Starting URL: ${url}`);
     console.log(`🔧 Auto-fix: ${goal.autoFix ? 'Enabled' : 'Disabled'}`);
-    console.log(`📊 Max steps: ${goal.maxSteps || 50}\n`);
-
-    // Initialize session
-    this.session = this.createSession(url, goal);
-    this.communicator = new AICommunicator(this.session, this.options.debug || false);
-
-    // Launch browser
-    await this.launch();
+    console.log(`📊 Max steps: ${this.maxSteps() === Infinity ? 'none (policy runs until done)' : this.maxSteps()}\n`);
 
-    const previousActions: Action[] = [];
+    const previousActions = this.session.executedActions!;
 
     try {
+      // Launch browser (inside the try: a failed launch still closes the transport)
+      await this.launch();
+
       // Initial navigation
       console.log(`📍 Step 1: Navigate to ${url}\n`);
       await this.executor!.execute({ action: 'navigate', url });
@@ -66,124 +80,228 @@ export class Explorer {
         previousActions,
       );
       this.session!.observations.push(aiObservation);
+      await this.checkpoint();
 
       // Send to AI and wait for first action
       const firstAction = await this.communicator!.sendObservation(aiObservation);
       this.session!.actions.push(firstAction);
+      await this.checkpoint();
 
-      // Main exploration loop
-      let currentStep = 2;
-      let currentAction = firstAction;
+      await this.run(firstAction, 2);
+    } catch (error) {
+      console.error(`\n❌ Exploration failed:`, error);
+      this.session!.status = 'failed';
+    } finally {
+      await this.cleanup();
+    }
 
-      while (currentStep <= (goal.maxSteps || 50)) {
-        // Check if goal achieved or should abort
-        if (currentAction.decision === 'goal_achieved') {
-          console.log(`\n🎉 Goal achieved!`);
-          this.session!.status = 'completed';
-          break;
-        }
+    return this.finish();
+  }
 
-        if (currentAction.decision === 'abort' || currentAction.decision === 'stuck') {
-          console.log(`\n⚠️  Exploration aborted: ${currentAction.reasoning}`);
-          this.session!.status = 'failed';
-          break;
-        }
+  /**
+   * Continue a saved session (session.json in `sessionDir`): get back to the
+   * last page state, then pick up where it stopped - run the AI's last
+   * action if it never ran, otherwise re-send the last observation.
+   */
+  async resume(sessionDir: string, mode: ResumeMode = 'replay'): Promise<ExplorationSession> {
+    const sessionFile = path.join(sessionDir, 'session.json');
+    if (!fs.existsSync(sessionFile)) throw new Error(`No session.json in ${sessionDir}`);
+    const session: ExplorationSession = JSON.parse(fs.readFileSync(sessionFile, 'utf8'));
+    if (session.status === 'completed') throw new Error(`Session ${session.sessionId} already completed`);
+    if (!session.observations.length) throw new Error(`Session ${session.sessionId} has no observations to resume from`);
+
+    // Sessions saved before executedActions existed only have the (trimmed) history of the last observation
+    const lastObservation = session.observations[session.observations.length - 1];
+    session.executedActions = session.executedActions || lastObservation.previousActions.map(a => ({ ...a } as Action));
+    session.url = session.url || session.executedActions.find(a => a.action === 'navigate')?.url || session.observations[0].currentUrl;
+    session.sessionDir = sessionDir;
+    session.status = 'running';
+    this.session = session;
+    await this.connect();
+
+    console.log(`\n🤖 fe-pilot - Resuming exploration ${session.sessionId}\n`);
+    console.log(`🎯 Goal: ${session.goal.objective}`);
+    console.log(`📍 Last URL: ${lastObservation.currentUrl}`);
+    console.log(`📈 Observations: ${session.observations.length}, actions run: ${session.executedActions.length}`);
+    console.log(`🔁 Restore: ${mode === 'storage' ? 'saved storage state' : 'replay actions'}\n`);
+
+
+    if (mode === 'storage' && !fs.existsSync(this.storageStatePath())) {
+      console.log(`⚠️  No storage-state.json in the session - starting with a clean browser`);
+    }
+    try {
+      await this.launch(mode === 'storage' ? this.storageStatePath() : undefined);
+      await this.restore(mode, lastObservation.currentUrl);
+
+      // The AI answered the last observation: run that action. Otherwise it is still waiting for one.
+      let next: AIAction;
+      if (session.actions.length >= session.observations.length) {
+        next = session.actions[session.actions.length - 1];
+        console.log(`\n▶️  Continuing with the AI's last decision: ${next.decision}`);
+      } else {
+        console.log(`\n▶️  Re-sending observation ${lastObservation.stepNumber}`);
+        next = await this.communicator!.sendObservation(lastObservation);
+        this.session!.actions.push(next);
+        await this.checkpoint();
+      }
+
+      await this.run(next, session.executedActions.length + 1);
+    } catch (error) {
+      console.error(`\n❌ Exploration failed:`, error);
+      this.session!.status = 'failed';
+    } finally {
+      await this.cleanup();
+    }
 
-        // Execute AI's action(s) - supports both single and batched
-        const actionsToExecute = currentAction.actions || (currentAction.action ? [currentAction.action] : []);
+    return this.finish();
+  }
 
-        if (actionsToExecute.length > 0) {
-          const stopOnError = currentAction.stopOnError !== false; // Default true
+  /**
+   * Main exploration loop: execute the AI's action(s), observe, ask for the next
+   */
+  private async run(firstAction: AIAction, firstStep: number): Promise<void> {
+    const goal = this.session!.goal;
+    const previousActions = this.session!.executedActions!;
+    let currentStep = firstStep;
+    let currentAction = firstAction;
+
+    while (currentStep <= this.maxSteps()) {
+      // Check if goal achieved or should abort
+      if (currentAction.decision === 'goal_achieved') {
+        console.log(`\n🎉 Goal achieved!`);
+        this.session!.status = 'completed';
+        break;
+      }
 
-          if (actionsToExecute.length > 1) {
-            console.log(`\n📦 Batch: Executing ${actionsToExecute.length} actions${stopOnError ? ' (stop on error)' : ''}...`);
-          }
+      if (currentAction.decision === 'abort' || currentAction.decision === 'stuck') {
+        console.log(`\n⚠️  Exploration aborted: ${currentAction.reasoning}`);
+        this.session!.status = 'failed';
+        break;
+      }
 
-          // Execute batch of actions
-          for (let i = 0; i < actionsToExecute.length; i++) {
-            const action = actionsToExecute[i];
-            console.log(
-              `\n📍 Step ${currentStep}: ${action.action} ${action.description || ''}`,
-            );
-
-            try {
-              await this.executor!.execute(action as Action);
-              previousActions.push(action as Action);
-              currentStep++;
-            } catch (error) {
-              console.log(`❌ Action failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-
-              if (stopOnError) {
-                console.log(`🛑 Stopping batch due to error`);
-                break;
-              } else {
-                console.log(`⏭️  Continuing with next action despite error`);
-              }
-            }
-          }
+      // Execute AI's action(s) - supports both single and batched
+      const actionsToExecute = currentAction.actions || (currentAction.action ? [currentAction.action] : []);
+
+      if (actionsToExecute.length > 0) {
+        const stopOnError = currentAction.stopOnError !== false; // Default true
+
+        if (actionsToExecute.length > 1) {
+          console.log(`\n📦 Batch: Executing ${actionsToExecute.length} actions${stopOnError ? ' (stop on error)' : ''}...`);
+        }
 
-          // Capture observation after batch completes
-          const lastAction = actionsToExecute[actionsToExecute.length - 1];
-          const observation = await this.observer!.captureObservation(
-            currentStep,
-            lastAction as Action,
+        // Execute batch of actions
+        for (let i = 0; i < actionsToExecute.length; i++) {
+          const action = actionsToExecute[i];
+          console.log(
+            `\n📍 Step ${currentStep}: ${action.action} ${action.description || ''}`,
           );
 
-          // Check for errors
-          if (observation.newConsoleLogs.some((l) => l.type === 'error')) {
-            console.log(
-              `⚠️  Console errors detected: ${observation.newConsoleLogs.filter((l) => l.type === 'error').length}`,
-            );
+          try {
+            await this.executor!.execute(action as Action);
+            previousActions.push(action as Action);
+            currentStep++;
+          } catch (error) {
+            console.log(`❌ Action failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+            if (stopOnError) {
+              console.log(`🛑 Stopping batch due to error`);
+              break;
+            } else {
+              console.log(`⏭️  Continuing with next action despite error`);
+            }
           }
+        }
 
-          if (observation.newNetworkRequests.some((r) => r.status >= 400)) {
-            console.log(
-              `⚠️  Network errors detected: ${observation.newNetworkRequests.filter((r) => r.status >= 400).length}`,
-            );
-          }
+        // Capture observation after batch completes
+        const lastAction = actionsToExecute[actionsToExecute.length - 1];
+        const observation = await this.observer!.captureObservation(
+          currentStep,
+          lastAction as Action,
+        );
+
+        // Check for errors
+        if (observation.newConsoleLogs.some((l) => l.type === 'error')) {
+          console.log(
+            `⚠️  Console errors detected: ${observation.newConsoleLogs.filter((l) => l.type === 'error').length}`,
+          );
+        }
 
-          // Prepare for AI
-          const aiObs = this.communicator!.prepareObservation(
-            observation,
-            previousActions,
+        if (observation.newNetworkRequests.some((r) => r.status >= 400)) {
+          console.log(
+            `⚠️  Network errors detected: ${observation.newNetworkRequests.filter((r) => r.status >= 400).length}`,
           );
-          this.session!.observations.push(aiObs);
-
-          // ALWAYS get next action from AI (checkpoint just adds more detail)
-          currentAction = await this.communicator!.sendObservation(aiObs);
-          this.session!.actions.push(currentAction);
-
-          // Handle bug fixes
-          if (currentAction.bugReport && goal.autoFix) {
-            console.log(`\n🔧 Bug detected - initiating auto-fix...`);
-            this.communicator!.reportBug(currentAction.bugReport);
-            this.session!.bugsFound++;
-            // AI will fix the bug and write next action
-          }
-        } else {
-          console.log(`\n⚠️  No action provided by AI, requesting next action...`);
+        }
 
-          // Request next action from AI
-          const lastObs = this.session!.observations[this.session!.observations.length - 1];
-          currentAction = await this.communicator!.sendObservation(lastObs);
-          this.session!.actions.push(currentAction);
+        // Prepare for AI
+        const aiObs = this.communicator!.prepareObservation(
+          observation,
+          previousActions,
+        );
+        this.session!.observations.push(aiObs);
+        await this.checkpoint();
+
+        // ALWAYS get next action from AI (checkpoint just adds more detail)
+        currentAction = await this.communicator!.sendObservation(aiObs);
+        this.session!.actions.push(currentAction);
+
+        // Handle bug fixes
+        if (currentAction.bugReport && goal.autoFix) {
+          console.log(`\n🔧 Bug detected - initiating auto-fix...`);
+          this.communicator!.reportBug(currentAction.bugReport, aiObs);
+          this.session!.bugsFound++;
+          // AI will fix the bug and write next action
         }
+      } else {
+        console.log(`\n⚠️  No action provided by AI, requesting next action...`);
 
-        // Save session state periodically
-        this.communicator!.saveSession();
+        // Request next action from AI
+        const lastObs = this.session!.observations[this.session!.observations.length - 1];
+        currentAction = await this.communicator!.sendObservation(lastObs);
+        this.session!.actions.push(currentAction);
       }
 
-      if (currentStep > (goal.maxSteps || 50)) {
-        console.log(`\n⚠️  Max steps reached (${goal.maxSteps || 50})`);
-        this.session!.status = 'failed';
-      }
-    } catch (error) {
-      console.error(`\n❌ Exploration failed:`, error);
+      // Save session state periodically
+      await this.checkpoint();
+    }
+
+    if (currentStep > this.maxSteps()) {
+      console.log(`\n⚠️  Max steps reached (${this.maxSteps()})`);
       this.session!.status = 'failed';
-    } finally {
-      await this.cleanup();
     }
+  }
 
+  /**
+   * Create the communicator for this.session and open its transport
+   */
+  private async connect(): Promise<void> {
+    const session = this.session!;
+    const transport = this.options.policy
+      ? new PolicyTransport(createPolicy(this.options.policy, {
+        url: session.url || session.observations[0]?.currentUrl,
+        credentials: session.goal.credentials,
+        avoid: this.options.avoid,
+      }))
+      : createTransport(this.options.aiTransport || 'file', {
+        sessionDir: session.sessionDir,
+        debug: this.options.debug,
+        port: this.options.aiPort,
+      });
+    this.communicator = new AICommunicator(this.session!, this.options.debug || false, transport);
+    await this.communicator.open();
+  }
+
+  /**
+   * goal.maxSteps, else 50 with an AI; a policy runs until its frontier is empty
+   */
+  private maxSteps(): number {
+    return this.session!.goal.maxSteps || (this.options.policy ? Infinity : 50);
+  }
+
+  private async finish(): Promise<ExplorationSession> {
+    // A policy reports each problem it finds (console error, failed request) as a concern
+    if (this.options.policy) {
+      this.session!.bugsFound = this.session!.actions.reduce((n, a) => n + (a.concerns?.length || 0), 0);
+    }
     // Final session save
     this.communicator!.saveSession();
     this.session!.currentStep = this.session!.observations.length;
@@ -195,11 +313,60 @@ export class Explorer {
     console.log(`🐛 Bugs found: ${this.session!.bugsFound}`);
     console.log(`🔧 Bugs fixed: ${this.session!.bugsFixed}`);
     console.log(`📁 Session: ${this.communicator!.getSessionDir()}`);
+    if (this.session!.status !== 'completed') {
+      console.log(`🔁 Resume with: fe-pilot explore --resume ${this.communicator!.getSessionDir()}`);
+    }
     console.log(`\n${'='.repeat(80)}\n`);
 
+    await this.communicator!.close();
     return this.session!;
   }
 
+  /**
+   * Save session.json and the browser storage state, so a run that dies
+   * (or times out waiting for the AI) can be resumed
+   */
+  private async checkpoint(): Promise<void> {
+    this.communicator!.saveSession();
+    try {
+      await this.context?.storageState({ path: this.storageStatePath() });
+    } catch (e) {
+      if (this.options.debug) console.log(`⚠️  DEBUG: Could not save storage state: ${(e as Error).message}`);
+    }
+  }
+
+  private storageStatePath(): string {
+    return path.join(this.session!.sessionDir, 'storage-state.json');
+  }
+
+  /**
+   * Bring a fresh browser back to the session's last page. A replay that
+   * fails part-way falls back to opening the last URL.
+   */
+  private async restore(mode: ResumeMode, lastUrl: string): Promise<void> {
+    const actions = this.session!.executedActions!;
+    if (mode === 'replay' && actions.length) {
+      for (let i = 0; i < actions.length; i++) {
+        console.log(`   ⏩ Replay ${i + 1}/${actions.length}: ${actions[i].action} ${actions[i].description || actions[i].url || ''}`);
+        try {
+          // The history drops failed actions, so replayed ones can look like a loop to the repeat guard
+          this.executor!.resetRepeatTracking();
+          await this.executor!.execute(actions[i]);
+        } catch (error) {
+          console.log(`⚠️  Replay failed at action ${i + 1}: ${error instanceof Error ? error.message : error}`);
+          console.log(`   Opening last URL instead: ${lastUrl}`);
+          await this.executor!.execute({ action: 'navigate', url: lastUrl });
+          break;
+        }
+      }
+    } else {
+      await this.executor!.execute({ action: 'navigate', url: lastUrl });
+    }
+    // Console/network noise and repeat counts from restoring are not part of what follows
+    this.observer!.reset();
+    this.executor!.resetRepeatTracking();
+  }
+
   /**
    * Create exploration session
    */
@@ -223,40 +390,61 @@ export class Explorer {
       actions: [],
       bugsFound: 0,
       bugsFixed: 0,
+      url,
+      executedActions: [],
     };
   }
 
   /**
    * Launch browser
    */
-  private async launch(): Promise<void> {
-    this.browser = await chromium.launch({
+  private async launch(storageState?: string): Promise<void> {
+    this.browser = await getBrowserType(this.options.browser).launch({
       headless: this.options.headless !== false,
     });
 
     this.context = await this.browser.newContext({
       viewport: { width: 1280, height: 720 },
+      ...(storageState && fs.existsSync(storageState) ? { storageState } : {}),
+      ...(this.options.recordHar ? harRecordOptions(this.options.recordHar) : {}),
     });
 
+    await startTrace(this.context, this.options.trace, this.session!.goal.objective);
+
+    if (this.options.replayHar) {
+      await replayHar(this.context, this.options.replayHar);
+    }
+
     this.page = await this.context.newPage();
 
     const screenshotDir = path.join(this.session!.sessionDir, 'screenshots');
-    this.observer = new Observer(this.page, screenshotDir);
-    this.executor = new ActionExecutor(this.page);
+    const mocker = new RouteMocker(this.page);
+    this.observer = new Observer(this.page, screenshotDir, mocker);
+    this.executor = new ActionExecutor(this.page, mocker, this.observer);
   }
 
   /**
    * Cleanup resources
    */
   private async cleanup(): Promise<void> {
+    if (this.context) {
+      try {
+        const failed = this.session!.status === 'failed';
+        this.session!.trace = await stopTrace(this.context, this.options.trace, failed, path.join(this.session!.sessionDir, 'trace.zip'));
+        if (this.session!.trace) console.log(`🧭 Trace: ${this.session!.trace}`);
+      } catch (e) {
+        console.log(`⚠️  Could not save trace: ${(e as Error).message}`);
+      }
+    }
+    // Best effort: a crashed browser must not keep finish() from closing the transport
     if (this.page) {
-      await this.page.close();
+      await this.page.close().catch(() => {});
     }
     if (this.context) {
-      await this.context.close();
+      await this.context.close().catch(() => {});
     }
     if (this.browser) {
-      await this.browser.close();
+      await this.browser.close().catch(() => {});
     }
   }
 }
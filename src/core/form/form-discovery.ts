@@ -76,6 +76,7 @@ export class FormDiscovery {
             placeholder: input.placeholder || undefined,
             ariaLabel: input.getAttribute('aria-label') || undefined,
             ariaRequired: input.getAttribute('aria-required') || undefined,
+            autocomplete: input.getAttribute('autocomplete') || undefined,
           });
         });
 
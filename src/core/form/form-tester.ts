@@ -3,12 +3,73 @@
  * Coordinates form discovery, testing, and reporting
  */
 
-import { chromium, Browser, Page } from 'playwright';
+import { Browser, Page } from 'playwright';
 import { FormDiscovery } from './form-discovery';
 import { EdgeCaseHandler } from './edge-case-handler';
-import { FormTestConfig, FormTestResult, MultiFormTestResult, FieldTestResult, Issue, DiscoveredForm } from './types';
+import { FormTestConfig, FormTestResult, FormTestRun, MultiFormTestResult, FieldTestResult, Issue, DiscoveredForm } from './types';
 import * as path from 'path';
 import * as fs from 'fs';
+import { BrowserName, EmulationProfile, WcagLevel } from '../../types';
+import { withinLevel } from '../accessibility';
+import { getBrowserType, parseBrowserList } from '../../utils/browsers';
+import { parseEmulationProfile, emulationLabel, contextOptions } from '../../utils/emulation';
+
+// What testAccessibility knows about a field
+export interface FieldAccessibility {
+  type: string;
+  label?: string;
+  ariaLabel?: string;
+  required?: boolean;
+  ariaRequired?: boolean | string;
+  autocomplete?: string;
+  disabled: boolean;
+  focusable: boolean;
+}
+
+// Field types whose purpose autocomplete can identify (1.3.5)
+const PURPOSE_TYPES = ['email', 'tel', 'url', 'password'];
+
+// Per-field checks, each tied to the success criterion it covers
+const FIELD_CHECKS: Array<{ level: WcagLevel; wcag: string; recommendation: string; check: (field: FieldAccessibility) => string | undefined }> = [
+  {
+    level: 'A', wcag: '4.1.2 Name, Role, Value (Level A)', recommendation: 'Indicate why the field is disabled',
+    check: f => f.disabled ? 'Field is disabled (may be accessibility issue if not properly indicated)' : undefined,
+  },
+  {
+    level: 'A', wcag: '1.3.1 Info and Relationships (Level A)', recommendation: 'Add a <label> or aria-label',
+    check: f => !f.label && !f.ariaLabel ? 'Missing label or aria-label' : undefined,
+  },
+  {
+    level: 'A', wcag: '2.1.1 Keyboard (Level A)', recommendation: 'Make the field reachable with Tab',
+    check: f => !f.disabled && !f.focusable ? 'Not keyboard accessible (cannot focus with Tab)' : undefined,
+  },
+  {
+    level: 'A', wcag: '4.1.2 Name, Role, Value (Level A)', recommendation: 'Add aria-required="true" to required fields',
+    check: f => f.required && !f.ariaRequired ? 'Missing aria-required="true" attribute' : undefined,
+  },
+  {
+    level: 'AA', wcag: '1.3.5 Identify Input Purpose (Level AA)', recommendation: 'Add an autocomplete token (e.g. autocomplete="email")',
+    check: f => PURPOSE_TYPES.includes(f.type) && !f.autocomplete ? `Missing autocomplete attribute on ${f.type} field` : undefined,
+  },
+];
+
+export interface FieldAccessibilityIssue {
+  message: string;
+  wcagCriteria: string;
+  recommendation: string;
+}
+
+/**
+ * Accessibility issues of one field, from the checks at or below `level`
+ */
+export function fieldAccessibilityIssues(field: FieldAccessibility, level: WcagLevel = 'AA'): FieldAccessibilityIssue[] {
+  const issues: FieldAccessibilityIssue[] = [];
+  for (const c of FIELD_CHECKS) {
+    const message = withinLevel(c.level, level) && c.check(field);
+    if (message) issues.push({ message, wcagCriteria: c.wcag, recommendation: c.recommendation });
+  }
+  return issues;
+}
 
 export interface StreamingCallbacks {
   onProgress?: (message: string) => void;
@@ -36,11 +97,20 @@ export class FormTester {
   }
 
   /**
-   * Main entry: Test a form at given URL
+   * Test a form at given URL (first engine/viewport only - see testFormRuns)
    */
   async testForm(url: string, config: Partial<FormTestConfig> = {}): Promise<FormTestResult> {
-    const startTime = Date.now();
+    const [run] = await this.testFormRuns(url, config);
+    if (!run.result) throw new Error(run.error);
+    return run.result;
+  }
 
+  /**
+   * Main entry: Test a form at given URL in every configured engine and viewport.
+   * A run that throws (browser missing, page down) is recorded as failed and
+   * the remaining runs still go ahead.
+   */
+  async testFormRuns(url: string, config: Partial<FormTestConfig> = {}): Promise<FormTestRun[]> {
     // Merge config with defaults
     const fullConfig: FormTestConfig = {
       mode: config.mode || 'standard',
@@ -48,6 +118,8 @@ export class FormTester {
       wcagLevel: config.wcagLevel || 'AA',
       maxAICost: config.maxAICost || 0.50,
       credentials: config.credentials,
+      browsers: config.browsers,
+      viewports: config.viewports,
     };
 
     const { callbacks } = this.options;
@@ -56,10 +128,51 @@ export class FormTester {
     callbacks?.onProgress?.(`📊 Mode: ${fullConfig.mode}`);
     callbacks?.onProgress?.(`🧠 AI Mode: ${fullConfig.aiMode}`);
 
+    // One full pass per engine and viewport (device name or "WIDTHxHEIGHT", as in scenario matrices);
+    // with several combinations each gets its own report sub-directory
+    const browsers = parseBrowserList(fullConfig.browsers);
+    const engines: BrowserName[] = browsers.length ? browsers : ['chromium'];
+    const profiles: Array<EmulationProfile | undefined> = fullConfig.viewports?.length
+      ? fullConfig.viewports.map(v => parseEmulationProfile(v))
+      : [undefined];
+    const runs: FormTestRun[] = [];
+    for (const engine of engines) {
+      for (const profile of profiles) {
+        const parts = [engines.length > 1 ? engine : '', profile && profiles.length > 1 ? emulationLabel(profile) : ''].filter(Boolean);
+        const reportDir = parts.length ? path.join(this.outputDir, parts.join('-').replace(/[^\w.-]+/g, '-')) : this.outputDir;
+        if (parts.length) callbacks?.onProgress?.(`\n🌐 ${[engine, profile && emulationLabel(profile)].filter(Boolean).join(' · ')}`);
+        const run = { browser: engine, viewport: profile && emulationLabel(profile) };
+        try {
+          const result = await this.testFormInBrowser(url, fullConfig, engine, profile || {}, reportDir);
+          runs.push({ ...run, result, passed: result.summary.criticalIssues === 0 });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          callbacks?.onProgress?.(`❌ ${message}`);
+          runs.push({ ...run, error: message, passed: false });
+        }
+      }
+    }
+    return runs;
+  }
+
+  /**
+   * Run discovery and field tests for every form on the page in one engine/viewport
+   */
+  private async testFormInBrowser(
+    url: string,
+    fullConfig: FormTestConfig,
+    engine: BrowserName,
+    profile: EmulationProfile,
+    reportDir: string
+  ): Promise<FormTestResult> {
+    const startTime = Date.now();
+    const { callbacks } = this.options;
+
     try {
       // Launch browser
-      this.browser = await chromium.launch({ headless: this.options.headless !== false });
-      this.page = await this.browser.newPage();
+      this.browser = await getBrowserType(engine).launch({ headless: this.options.headless !== false });
+      const context = await this.browser.newContext(contextOptions(profile, engine));
+      this.page = await context.newPage();
 
       // Navigate to URL
       callbacks?.onProgress?.(`🌐 Navigating to ${url}...`);
@@ -115,7 +228,7 @@ export class FormTester {
       };
 
       // Save results
-      await this.saveMultiFormResults(multiFormResult);
+      await this.saveMultiFormResults(multiFormResult, reportDir);
 
       // For backward compatibility, return first form result
       return allResults[0];
@@ -498,59 +611,42 @@ export class FormTester {
   }
 
   /**
-   * Test accessibility (WCAG compliance)
+   * Test accessibility (WCAG compliance) at config.wcagLevel
    */
   private async testAccessibility(field: any, config: FormTestConfig) {
-    const issues: string[] = [];
+    const level = config.wcagLevel || 'AA';
 
-    // Check 0: Skip detailed checks for disabled fields (but report they're disabled)
-    const isDisabled = await this.page!.evaluate((selector) => {
+    // Disabled fields only get the disabled notice, not the keyboard check
+    const disabled = await this.page!.evaluate((selector) => {
       const el = document.querySelector(selector);
       return el ? (el as HTMLInputElement | HTMLSelectElement).disabled : false;
     }, field.selector);
 
-    if (isDisabled) {
-      issues.push('Field is disabled (may be accessibility issue if not properly indicated)');
-    }
-
-    // Check 1: Has label
-    if (!field.label && !field.ariaLabel) {
-      issues.push('Missing label or aria-label');
-    }
-
-    // Check 2: Keyboard accessible (only if not disabled)
-    if (!isDisabled) {
+    let focusable = false;
+    if (!disabled) {
       try {
         await this.page!.focus(field.selector);
-        const focused = await this.page!.evaluate((selector) => {
+        focusable = await this.page!.evaluate((selector) => {
           return document.activeElement === document.querySelector(selector);
         }, field.selector);
-
-        if (!focused) {
-          issues.push('Not keyboard accessible (cannot focus with Tab)');
-        }
       } catch {
-        issues.push('Cannot focus field');
+        // Cannot focus field
       }
     }
 
-    // Check 3: ARIA attributes (if required)
-    if (field.required && !field.ariaRequired) {
-      issues.push('Missing aria-required="true" attribute');
-    }
-
+    const issues = fieldAccessibilityIssues({ ...field, disabled, focusable }, level);
     if (issues.length > 0) {
       return {
         passed: false,
-        message: `Accessibility issues: ${issues.join(', ')}`,
+        message: `Accessibility issues (WCAG ${level}): ${issues.map(i => i.message).join(', ')}`,
         details: {
-          wcagCriteria: '1.3.1 Info and Relationships (Level A)',
-          recommendation: 'Add proper labels and ARIA attributes',
+          wcagCriteria: [...new Set(issues.map(i => i.wcagCriteria))].join('; '),
+          recommendation: [...new Set(issues.map(i => i.recommendation))].join('; '),
         },
       };
     }
 
-    return { passed: true, message: 'All accessibility checks passed' };
+    return { passed: true, message: `All WCAG ${level} accessibility checks passed` };
   }
 
   /**
@@ -648,20 +744,24 @@ export class FormTester {
   /**
    * Save multi-form test results to files
    */
-  private async saveMultiFormResults(result: MultiFormTestResult): Promise<void> {
+  private async saveMultiFormResults(result: MultiFormTestResult, outputDir: string = this.outputDir): Promise<void> {
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+
     // Save JSON (all forms)
-    const jsonPath = path.join(this.outputDir, 'multi-form-report.json');
+    const jsonPath = path.join(outputDir, 'multi-form-report.json');
     fs.writeFileSync(jsonPath, JSON.stringify(result, null, 2));
 
     // Save Markdown summary (all forms)
-    const mdPath = path.join(this.outputDir, 'multi-form-report.md');
+    const mdPath = path.join(outputDir, 'multi-form-report.md');
     const markdown = this.generateMultiFormMarkdownReport(result);
     fs.writeFileSync(mdPath, markdown);
 
     // Also save individual form reports for backward compatibility
     result.forms.forEach((formResult, index) => {
-      const formJsonPath = path.join(this.outputDir, `report-form-${index + 1}.json`);
-      const formMdPath = path.join(this.outputDir, `report-form-${index + 1}.md`);
+      const formJsonPath = path.join(outputDir, `report-form-${index + 1}.json`);
+      const formMdPath = path.join(outputDir, `report-form-${index + 1}.md`);
       fs.writeFileSync(formJsonPath, JSON.stringify(formResult, null, 2));
       fs.writeFileSync(formMdPath, this.generateMarkdownReport(formResult));
     });
@@ -130,6 +130,15 @@ export interface FormTestResult {
   aiCost: number;
 }
 
+// One engine/viewport pass of `form test`
+export interface FormTestRun {
+  browser: string;
+  viewport?: string;   // Device name or "WIDTHxHEIGHT"
+  result?: FormTestResult;  // Missing when the run could not complete
+  error?: string;
+  passed: boolean;     // Completed with no critical/high issues
+}
+
 export interface MultiFormTestResult {
   forms: FormTestResult[];
   overallSummary: {
@@ -192,12 +201,14 @@ export interface Issue {
   message: string;
   recommendation: string;
   wcagCriteria?: string; // e.g., "1.3.1 Info and Relationships (Level A)"
+  rule?: string;         // Page audit rule id, e.g. "image-alt"
+  element?: string;      // Offending element (page audit)
 }
 
 export interface FormTestConfig {
   mode: 'quick' | 'standard' | 'full';
   aiMode: 'disabled' | 'fallback' | 'hybrid' | 'always';
-  wcagLevel?: 'A' | 'AA' | 'AAA';
+  wcagLevel?: 'A' | 'AA' | 'AAA';  // Field accessibility checks up to this level (default AA)
   browsers?: string[];
   viewports?: string[];
   maxAICost?: number;
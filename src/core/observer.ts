@@ -4,8 +4,13 @@ import * as fs from 'fs';
 import {
   Observation, ConsoleLog, NetworkRequest, DOMState,
   PerformanceMetrics, Action, FormValidation, ErrorSummary,
-  ErrorCategory, CategorizedError,
+  ErrorCategory, CategorizedError, ScenarioConfig,
 } from '../types';
+import { RouteMocker } from './route-mocker';
+import { redactHeaders, formatBody, keepRawBody } from '../utils/network-capture';
+import { takeScreenshot, screenshotFileName } from '../utils/screenshot';
+
+export type ObserverConfig = Pick<ScenarioConfig, 'networkCapture' | 'ignoreConsoleErrors' | 'consoleErrorThresholds'>;
 
 export class Observer {
   private consoleLogs: ConsoleLog[] = [];
@@ -13,8 +18,15 @@ export class Observer {
   private errors: Error[] = [];
   private lastObservationIndex = { console: 0, network: 0 };
   private urlHistory: string[] = [];
+  private pendingBodies = new Set<Promise<void>>();
+  private stepWindows: number[] = []; // Console index at the start of each observed step
+  private namedScreenshots = new Map<string, string>();
+  private capture: NonNullable<ScenarioConfig['networkCapture']>;
+  private ignoreConsole: RegExp[];
 
-  constructor(private page: Page, private screenshotDir: string) {
+  constructor(private page: Page, private screenshotDir: string, private mocker?: RouteMocker, private config: ObserverConfig = {}) {
+    this.capture = config.networkCapture || {};
+    this.ignoreConsole = (config.ignoreConsoleErrors || []).map(p => new RegExp(p, 'i'));
     this.setupListeners();
   }
 
@@ -44,7 +56,7 @@ export class Observer {
     this.page.on('response', async (response) => {
       const request = response.request();
       const timing = request.timing();
-      this.networkRequests.push({
+      const entry: NetworkRequest = {
         url: request.url(),
         method: request.method(),
         status: response.status(),
@@ -52,8 +64,46 @@ export class Observer {
         duration: timing ? timing.responseEnd - timing.requestStart : 0,
         resourceType: request.resourceType(),
         timestamp: Date.now(),
+        requestHeaders: redactHeaders(request.headers(), this.capture),
+        responseHeaders: redactHeaders(response.headers(), this.capture),
         errorType: this.categorizeNetworkError(response.status()),
-      });
+        mocked: this.mocker?.isMocked(request) || undefined,
+      };
+      this.networkRequests.push(entry);
+
+      if (this.shouldCaptureBody(request.resourceType(), response.status())) {
+        entry.requestBody = formatBody(request.postDataBuffer(), request.headers()['content-type'], this.capture);
+        keepRawBody(entry, 'request', request.postDataBuffer(), request.headers()['content-type']);
+        // Bodies arrive after the response event; captureObservation waits for them
+        const pending: Promise<void> = response.body()
+          .then(body => {
+            entry.responseBody = formatBody(body, response.headers()['content-type'], this.capture);
+            keepRawBody(entry, 'response', body, response.headers()['content-type']);
+          })
+          .catch(() => { /* redirects and aborted loads have no body */ })
+          .finally(() => this.pendingBodies.delete(pending));
+        this.pendingBodies.add(pending);
+      }
+    });
+
+    this.page.on('requestfailed', (request) => {
+      const entry: NetworkRequest = {
+        url: request.url(),
+        method: request.method(),
+        status: 0,
+        statusText: request.failure()?.errorText || 'failed',
+        duration: 0,
+        resourceType: request.resourceType(),
+        timestamp: Date.now(),
+        requestHeaders: redactHeaders(request.headers(), this.capture),
+        requestBody: this.shouldCaptureBody(request.resourceType(), 0)
+          ? formatBody(request.postDataBuffer(), request.headers()['content-type'], this.capture)
+          : undefined,
+        errorType: 'network_error',
+        mocked: this.mocker?.isMocked(request) || undefined,
+      };
+      this.networkRequests.push(entry);
+      if (entry.requestBody) keepRawBody(entry, 'request', request.postDataBuffer(), request.headers()['content-type']);
     });
 
     this.page.on('framenavigated', (frame) => {
@@ -82,29 +132,59 @@ export class Observer {
     return 'javascript';
   }
 
+  /**
+   * Bodies are kept for API calls (fetch/xhr) and failed requests by default
+   */
+  private shouldCaptureBody(resourceType: string, status: number): boolean {
+    const failed = status >= 400 || status === 0;
+    switch (this.capture.bodies || 'api') {
+      case 'none': return false;
+      case 'all': return true;
+      case 'errors': return failed;
+      default: return failed || resourceType === 'fetch' || resourceType === 'xhr';
+    }
+  }
+
   private categorizeNetworkError(status: number): 'server_error' | 'client_error' | undefined {
     if (status >= 500) return 'server_error';
     if (status >= 400) return 'client_error';
     return undefined;
   }
 
-  async captureObservation(stepNumber: number, action: Action): Promise<Observation> {
+  /**
+   * `screenshot` forces a (viewport) screenshot for non-screenshot steps,
+   * e.g. screenshotOnStep / screenshotOnError
+   */
+  async captureObservation(stepNumber: number, action: Action, screenshot = false): Promise<Observation> {
     const timestamp = Date.now();
+    if (this.pendingBodies.size) {
+      await Promise.race([Promise.all([...this.pendingBodies]), new Promise(resolve => setTimeout(resolve, 2000))]);
+    }
     const urlBefore = this.urlHistory[this.urlHistory.length - 2] || this.page.url();
     const urlAfter = this.page.url();
     let screenshotPath: string | undefined;
-    if (action.action === 'screenshot' || action.observe) {
+    if (action.action === 'screenshot') {
+      try {
+        screenshotPath = await this.captureScreenshot(stepNumber, action);
+      } catch (e) {
+        // Element missing etc. - fall back to the page when a screenshot is forced anyway
+        if (!screenshot) throw e;
+        screenshotPath = await this.captureScreenshot(stepNumber);
+      }
+    } else if (action.observe || screenshot) {
       screenshotPath = await this.captureScreenshot(stepNumber);
     }
     const domState = await this.captureDOMState();
     const performance = await this.capturePerformance();
     const formValidation = await this.captureFormValidation();
+    this.stepWindows.push(this.lastObservationIndex.console);
     const newConsoleLogs = this.consoleLogs.slice(this.lastObservationIndex.console);
     const newNetworkRequests = this.networkRequests.slice(this.lastObservationIndex.network);
     this.lastObservationIndex.console = this.consoleLogs.length;
     this.lastObservationIndex.network = this.networkRequests.length;
     return {
       timestamp, stepNumber, action, screenshot: screenshotPath,
+      screenshotName: action.action === 'screenshot' ? action.name : undefined,
       consoleLogs: [...this.consoleLogs], newConsoleLogs,
       networkRequests: [...this.networkRequests], newNetworkRequests,
       domState, errors: [...this.errors], performance, formValidation,
@@ -112,14 +192,23 @@ export class Observer {
     };
   }
 
-  private async captureScreenshot(stepNumber: number): Promise<string> {
-    const filename = `step-${stepNumber}-${Date.now()}.png`;
+  /**
+   * Viewport screenshot, or what a `screenshot` step asks for (selector,
+   * full_page, mask). Named screenshots get a stable file name.
+   */
+  private async captureScreenshot(stepNumber: number, action?: Action): Promise<string> {
+    const filename = action?.name ? `${screenshotFileName(action.name)}.png` : `step-${stepNumber}-${Date.now()}.png`;
     const filepath = path.join(this.screenshotDir, filename);
     if (!fs.existsSync(this.screenshotDir)) fs.mkdirSync(this.screenshotDir, { recursive: true });
-    await this.page.screenshot({ path: filepath, fullPage: false });
+    await takeScreenshot(this.page, { path: filepath, selector: action?.selector, fullPage: action?.full_page, mask: action?.mask });
+    if (action?.name) this.namedScreenshots.set(action.name, filepath);
     return filepath;
   }
 
+  getNamedScreenshot(name: string): string | undefined {
+    return this.namedScreenshots.get(name);
+  }
+
   private async captureDOMState(): Promise<DOMState> {
     return await this.page.evaluate(() => {
       const visibleText = Array.from(document.querySelectorAll('body *'))
@@ -133,8 +222,18 @@ export class Observer {
         .map((b: any) => b.textContent?.trim() || b.value || b.getAttribute('aria-label') || '').filter(Boolean);
       const inputs = Array.from(document.querySelectorAll('input, textarea, select'))
         .map((i: any) => i.placeholder || i.name || i.id || '').filter(Boolean);
+      // Visible, enabled text-like fields - the ones fill/type can act on
+      const textTypes = ['text', 'email', 'password', 'search', 'tel', 'url', 'number', 'date', 'datetime-local', 'time', 'month', 'week'];
+      const fillable = Array.from(document.querySelectorAll('input, textarea'))
+        .filter((i: any) => {
+          if (i.disabled || i.readOnly || (i.tagName === 'INPUT' && !textTypes.includes(i.type))) return false;
+          const s = window.getComputedStyle(i);
+          const r = i.getBoundingClientRect();
+          return s.display !== 'none' && s.visibility !== 'hidden' && r.width > 0 && r.height > 0;
+        })
+        .map((i: any) => i.placeholder || i.name || i.id || '').filter(Boolean);
       const links = Array.from(document.querySelectorAll('a[href]'))
-        .map((l: any) => l.textContent?.trim() || '').filter(Boolean).slice(0, 20);
+        .map((l: any) => l.textContent?.trim() || '').filter(Boolean);
       const dropdowns: any[] = [];
       document.querySelectorAll('select').forEach((s: any) => {
         dropdowns.push({
@@ -169,7 +268,7 @@ export class Observer {
       return {
         url: window.location.href, title: document.title,
         visibleText: [...new Set(visibleText)], buttons: [...new Set(buttons)],
-        inputs: [...new Set(inputs)], links: [...new Set(links)],
+        inputs: [...new Set(inputs)], fillable: [...new Set(fillable)], links: [...new Set(links)],
         interactiveElementsSummary: {
           totalButtons: buttons.length, totalInputs: inputs.length, totalLinks: links.length,
           keyActions: buttons.filter((b: string) => /login|submit|next|save/i.test(b)).slice(0, 10),
@@ -228,6 +327,31 @@ export class Observer {
     return this.getNewConsoleErrors().length > 0 || this.getNewNetworkErrors().length > 0;
   }
 
+  /**
+   * no_console_errors: count console entries per category (minus
+   * config.ignoreConsoleErrors matches) and compare with the thresholds.
+   * Step scope covers the last observed step, or the last two when
+   * `includePreviousStep` is set (standalone assert steps).
+   */
+  checkConsoleErrors(scope: 'step' | 'scenario' = 'step', includePreviousStep = false): { passed: boolean; message: string; violations: ConsoleLog[] } {
+    const start = scope === 'scenario' ? 0 : this.stepWindows[this.stepWindows.length - (includePreviousStep ? 2 : 1)] ?? 0;
+    const logs = this.consoleLogs.slice(start).filter(l => !this.ignoreConsole.some(p => p.test(l.text)));
+    const thresholds = { critical: 0, ...this.config.consoleErrorThresholds };
+    const violations: ConsoleLog[] = [];
+    const over: string[] = [];
+    for (const [category, max] of Object.entries(thresholds)) {
+      if (max === undefined) continue;
+      const found = logs.filter(l => l.category === category);
+      if (found.length > max) {
+        over.push(`${found.length} ${category} (max ${max})`);
+        violations.push(...found);
+      }
+    }
+    if (!over.length) return { passed: true, message: `No console errors ${scope === 'scenario' ? 'since scenario start' : 'in step'}`, violations };
+    const first = violations[0].text.length > 200 ? `${violations[0].text.slice(0, 200)}…` : violations[0].text;
+    return { passed: false, message: `Console: ${over.join(', ')} - first: ${first}`, violations };
+  }
+
   getErrorSummary(): ErrorSummary {
     const categorize = (logs: ConsoleLog[]): ErrorCategory => {
       const items: CategorizedError[] = [];
@@ -253,5 +377,7 @@ export class Observer {
   reset(): void {
     this.consoleLogs = []; this.networkRequests = []; this.errors = []; this.urlHistory = [];
     this.lastObservationIndex = { console: 0, network: 0 };
+    this.stepWindows = [];
+    this.namedScreenshots.clear();
   }
 }
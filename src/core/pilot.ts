@@ -1,15 +1,43 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { Browser, BrowserContext, Page } from 'playwright';
 import * as path from 'path';
 import * as fs from 'fs';
-import { Scenario, TestReport, StepResult, Observation, ErrorSummary, AssertionResult } from '../types';
+import { Scenario, ScenarioConfig, BrowserName, Action, TestReport, StepResult, Observation, ErrorSummary, AssertionResult, NetworkRequest } from '../types';
 import { Observer } from './observer';
 import { ActionExecutor } from './executor';
+import { RouteMocker } from './route-mocker';
+import { VisualComparator } from './visual';
+import { AccessibilityAuditor } from './accessibility';
+import { ScenarioParser } from '../utils/scenario-parser';
+import { createReporters, resolveReportPath } from './reporters';
+import { getBrowserType } from '../utils/browsers';
+import { contextOptions } from '../utils/emulation';
+import { harRecordOptions, replayHar } from '../utils/har';
+import { videoOptions, startTrace, stopTrace, saveVideo } from '../utils/artifacts';
 
 export interface PilotOptions {
   headless?: boolean;
   outputDir?: string;
   aiCheckpoints?: boolean;
   onCheckpoint?: (observation: Observation) => Promise<void>;
+  reporters?: string[];   // Report formats (default: ['json', 'html'])
+  reportFile?: string;    // Report path; extension is swapped per format when several reporters run
+  browserName?: BrowserName; // Engine override (default: scenario config.browser, then chromium)
+  browser?: Browser;      // Shared browser (e.g. from ScenarioRunner); Pilot opens its own context and leaves the browser open
+  variant?: string;       // Matrix entry label recorded in the report (config already holds the merged entry)
+  recordHar?: string;     // Record the run's traffic to this HAR file
+  replayHar?: string;     // Serve all requests from this HAR file (offline; unknown requests are aborted)
+}
+
+// CI runs never create visual baselines - a missing one fails the assertion
+const isCI = () => !!process.env.CI && !['0', 'false'].includes(process.env.CI.toLowerCase());
+
+interface RunState {
+  overallStatus: 'passed' | 'failed' | 'warning';
+  skipped: number;
+  assertionsPassed: number;
+  assertionsFailed: number;
+  retriedSteps: number;
+  previousRequests: NetworkRequest[]; // Previous step's requests, so assert steps can check them
 }
 
 export class Pilot {
@@ -31,137 +59,265 @@ export class Pilot {
   async execute(scenario: Scenario): Promise<TestReport> {
     const startTime = Date.now();
     const steps: StepResult[] = [];
-    let overallStatus: 'passed' | 'failed' | 'warning' = 'passed';
     const config = scenario.config || {};
-    let skipped = 0, assertionsPassed = 0, assertionsFailed = 0, retriedSteps = 0;
+    const state: RunState = { overallStatus: 'passed', skipped: 0, assertionsPassed: 0, assertionsFailed: 0, retriedSteps: 0, previousRequests: [] };
+    let artifacts: TestReport['artifacts'];
+    let crashed = true;
 
     try {
       await this.launch(scenario);
       console.log(`\n🚀 Starting scenario: ${scenario.name}`);
       if (scenario.description) console.log(`📝 ${scenario.description}`);
-      console.log(`📍 Base URL: ${scenario.url}\n`);
+      console.log(`📍 Base URL: ${scenario.url}`);
+      console.log(`🌐 Browser: ${this.browserName(scenario)}${this.options.variant ? ` · 📱 ${this.options.variant}` : ''}\n`);
 
       for (let i = 0; i < scenario.steps.length; i++) {
-        const step = scenario.steps[i];
-        const stepNumber = i + 1;
-        console.log(`\n📍 Step ${stepNumber}: ${step.action} ${step.description || ''}`);
-        const stepStart = Date.now();
-        let status: 'success' | 'failed' | 'warning' | 'skipped' = 'success';
-        let error: string | undefined;
-        let retryCount = 0;
-        const stepAssertions: AssertionResult[] = [];
-        const maxRetries = config.retryFailedSteps || 0;
-
-        for (let attempt = 0; attempt <= maxRetries; attempt++) {
-          if (attempt > 0) { console.log(`   🔄 Retry ${attempt}/${maxRetries}`); retryCount++; retriedSteps++; }
-          try {
-            await this.executor!.execute(step);
-            const obs = await this.observer!.captureObservation(stepNumber, step);
-
-            if (step.action === 'assert' && step.assert_type) {
-              const res = await this.executor!.runAssertion(step.assert_type, step);
-              stepAssertions.push(res);
-              if (res.passed) { assertionsPassed++; console.log(`   ✅ Assertion: ${res.message}`); }
-              else { assertionsFailed++; status = 'failed'; error = res.message; overallStatus = 'failed'; console.log(`   ❌ Assertion: ${res.message}`); }
-            }
-
-            if (step.expect?.length) {
-              const v = await this.executor!.verifyExpectations(step.expect);
-              if (!v.passed) { status = 'failed'; error = v.failures.join('; '); overallStatus = 'failed'; console.log(`   ❌ ${error}`); }
-            }
-
-            if (config.detectValidationErrors && obs.formValidation && !obs.formValidation.isValid) {
-              const ve = obs.formValidation.validationErrors;
-              if (ve.length) {
-                console.log(`   ⚠️  Form validation errors:`);
-                ve.forEach(e => console.log(`      - ${e.field}: ${e.message}`));
-                if (status === 'success') { status = 'warning'; if (overallStatus === 'passed') overallStatus = 'warning'; }
-              }
-            }
-
-            if (step.observe && this.observer!.hasNewErrors()) {
-              const ce = this.observer!.getNewConsoleErrors();
-              const ne = this.observer!.getNewNetworkErrors();
-              if (ce.length) console.log(`   ⚠️  Console errors: ${ce.length}`);
-              if (ne.length) console.log(`   ⚠️  Network errors: ${ne.length}`);
-              if (status === 'success') { status = 'warning'; if (overallStatus === 'passed') overallStatus = 'warning'; }
-            }
-
-            if (this.options.aiCheckpoints && this.options.onCheckpoint) await this.options.onCheckpoint(obs);
-
-            steps.push({ step: stepNumber, action: step, status, observations: obs, duration: Date.now() - stepStart, error, retryCount, assertions: stepAssertions.length ? stepAssertions : undefined, formValidation: obs.formValidation });
-            if (status === 'success') console.log(`✅ Step completed`);
-            else if (status === 'warning') console.log(`⚠️  Step completed with warnings`);
-            break;
-          } catch (e) {
-            if (attempt < maxRetries) { console.log(`   ⚠️  Failed, retrying...`); await this.page?.waitForTimeout(1000); continue; }
-            status = 'failed'; overallStatus = 'failed'; error = (e as Error).message;
-            console.log(`❌ Step failed: ${error.substring(0, 200)}`);
-            if (config.screenshotOnError) try { await this.observer!.captureObservation(stepNumber, { ...step, action: 'screenshot' }); } catch {}
-            try {
-              const obs = await this.observer!.captureObservation(stepNumber, step);
-              steps.push({ step: stepNumber, action: step, status, observations: obs, duration: Date.now() - stepStart, error, retryCount });
-            } catch {
-              steps.push({ step: stepNumber, action: step, status, observations: {} as any, duration: Date.now() - stepStart, error, retryCount });
-            }
-            if (config.stopOnFirstFailure) {
-              for (let j = i + 1; j < scenario.steps.length; j++) {
-                skipped++;
-                steps.push({ step: j + 1, action: scenario.steps[j], status: 'skipped', observations: {} as any, duration: 0 });
-              }
-            }
+        const result = await this.runStep(scenario.steps[i], i + 1, String(i + 1), config, state);
+        steps.push(result);
+        if (result.status === 'failed' && config.stopOnFirstFailure) {
+          for (let j = i + 1; j < scenario.steps.length; j++) {
+            state.skipped++;
+            steps.push({ step: j + 1, action: scenario.steps[j], status: 'skipped', observations: {} as any, duration: 0 });
           }
+          break;
         }
-        if (status === 'failed' && config.stopOnFirstFailure) break;
       }
-      console.log(`\n${'='.repeat(80)}\n✨ Scenario completed: ${scenario.name}\n📊 Status: ${overallStatus.toUpperCase()}`);
+      console.log(`\n${'='.repeat(80)}\n✨ Scenario completed: ${scenario.name}\n📊 Status: ${state.overallStatus.toUpperCase()}`);
+      crashed = false;
     } finally {
-      await this.cleanup();
+      artifacts = await this.cleanup(scenario, crashed || state.overallStatus === 'failed');
     }
 
-    const report = this.generateReport(scenario, steps, overallStatus, startTime, Date.now(), { skipped, assertionsPassed, assertionsFailed, retriedSteps });
+    const report = this.generateReport(scenario, steps, state.overallStatus, startTime, Date.now(), state);
+    if (artifacts?.video || artifacts?.trace) report.artifacts = artifacts;
     this.saveReport(report);
     this.printSummary(report);
     return report;
   }
 
+  /**
+   * Run a single step (with retries), or a control-flow step and its nested steps.
+   * `label` is the dotted path printed in the log (e.g. "4.then.2").
+   */
+  private async runStep(step: Action, stepNumber: number, label: string, config: ScenarioConfig, state: RunState): Promise<StepResult> {
+    if (step.action === 'if' || step.action === 'repeat' || step.action === 'for_each') {
+      return this.runControlFlow(step, stepNumber, label, config, state);
+    }
+
+    console.log(`\n📍 Step ${label}: ${step.action} ${step.description || ''}`);
+    const stepStart = Date.now();
+    let status: 'success' | 'failed' | 'warning' | 'skipped' = 'success';
+    let error: string | undefined;
+    let retryCount = 0;
+    const stepAssertions: AssertionResult[] = [];
+    const maxRetries = config.retryFailedSteps || 0;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) { console.log(`   🔄 Retry ${attempt}/${maxRetries}`); retryCount++; state.retriedSteps++; }
+      try {
+        await this.executor!.execute(step);
+        const obs = await this.observer!.captureObservation(stepNumber, step, config.screenshotOnStep);
+        const network = step.action === 'assert' || step.action === 'verify'
+          ? [...state.previousRequests, ...obs.newNetworkRequests]
+          : obs.newNetworkRequests;
+        state.previousRequests = obs.newNetworkRequests;
+
+        if (step.action === 'assert' && step.assert_type) {
+          const res = await this.executor!.runAssertion(step.assert_type, step, undefined, network);
+          stepAssertions.push(res);
+          if (res.passed) { state.assertionsPassed++; console.log(`   ✅ Assertion: ${res.message}`); }
+          else { state.assertionsFailed++; status = 'failed'; error = res.message; state.overallStatus = 'failed'; console.log(`   ❌ Assertion: ${res.message}`); }
+        }
+
+        if (step.expect?.length) {
+          const v = await this.executor!.verifyExpectations(step.expect, network);
+          if (!v.passed) { status = 'failed'; error = v.failures.join('; '); state.overallStatus = 'failed'; console.log(`   ❌ ${error}`); }
+        }
+
+        if (config.detectValidationErrors && obs.formValidation && !obs.formValidation.isValid) {
+          const ve = obs.formValidation.validationErrors;
+          if (ve.length) {
+            console.log(`   ⚠️  Form validation errors:`);
+            ve.forEach(e => console.log(`      - ${e.field}: ${e.message}`));
+            if (status === 'success') { status = 'warning'; if (state.overallStatus === 'passed') state.overallStatus = 'warning'; }
+          }
+        }
+
+        if (step.observe && this.observer!.hasNewErrors()) {
+          const ce = this.observer!.getNewConsoleErrors();
+          const ne = this.observer!.getNewNetworkErrors();
+          if (ce.length) console.log(`   ⚠️  Console errors: ${ce.length}`);
+          if (ne.length) console.log(`   ⚠️  Network errors: ${ne.length}`);
+          if (status === 'success') { status = 'warning'; if (state.overallStatus === 'passed') state.overallStatus = 'warning'; }
+        }
+
+        // A healed selector passes, but the scenario needs updating
+        const selectorMatch = this.executor!.takeSelectorMatch();
+        if (selectorMatch?.healed && status === 'success') { status = 'warning'; if (state.overallStatus === 'passed') state.overallStatus = 'warning'; }
+
+        if (this.options.aiCheckpoints && this.options.onCheckpoint) await this.options.onCheckpoint(obs);
+
+        if (status === 'success') console.log(`✅ Step completed`);
+        else if (status === 'warning') console.log(`⚠️  Step completed with warnings`);
+        return { step: stepNumber, action: step, status, observations: obs, duration: Date.now() - stepStart, error, retryCount, assertions: stepAssertions.length ? stepAssertions : undefined, formValidation: obs.formValidation, selectorMatch };
+      } catch (e) {
+        if (attempt < maxRetries) { console.log(`   ⚠️  Failed, retrying...`); await this.page?.waitForTimeout(1000); continue; }
+        status = 'failed'; state.overallStatus = 'failed'; error = (e as Error).message;
+        this.executor!.takeSelectorMatch();
+        console.log(`❌ Step failed: ${error.substring(0, 200)}`);
+        try {
+          const obs = await this.observer!.captureObservation(stepNumber, step, config.screenshotOnError);
+          return { step: stepNumber, action: step, status, observations: obs, duration: Date.now() - stepStart, error, retryCount };
+        } catch {
+          return { step: stepNumber, action: step, status, observations: {} as any, duration: Date.now() - stepStart, error, retryCount };
+        }
+      }
+    }
+  }
+
+  private async runControlFlow(step: Action, stepNumber: number, label: string, config: ScenarioConfig, state: RunState): Promise<StepResult> {
+    console.log(`\n📍 Step ${label}: ${step.action} ${step.description || ''}`);
+    const stepStart = Date.now();
+    const children: StepResult[] = [];
+    let failed = false;
+
+    if (step.action === 'if') {
+      const met = await this.executor!.evaluateCondition(step.when!);
+      const branch = met ? 'then' : 'else';
+      console.log(`   🔀 Condition ${met ? 'met' : 'not met'} → ${branch}`);
+      const body = (met ? step.then : step.else) || [];
+      const results = await this.runBlock(body, stepNumber, `${label}.${branch}`, config, state);
+      results.forEach(r => { r.branch = branch; });
+      children.push(...results);
+    } else {
+      const items = step.action === 'repeat'
+        ? Array.from({ length: step.times || 0 }, (_, i) => i)
+        : (Array.isArray(step.items) ? step.items : []);
+      const loopVar = step.as || 'item';
+      for (let i = 0; i < items.length && !failed; i++) {
+        console.log(`   🔁 Iteration ${i + 1}/${items.length}${step.action === 'for_each' ? `: ${JSON.stringify(items[i])}` : ''}`);
+        this.executor!.resetRepeatTracking();
+        const vars = step.action === 'for_each' ? { [loopVar]: items[i], index: i } : { index: i };
+        const body = ScenarioParser.bindParams(step.steps || [], vars) as Action[];
+        const results = await this.runBlock(body, stepNumber, `${label}[${i + 1}]`, config, state);
+        results.forEach(r => { r.iteration = i + 1; });
+        children.push(...results);
+        failed = results.some(r => r.status === 'failed') && !!config.stopOnFirstFailure;
+      }
+    }
+
+    const status = children.some(c => c.status === 'failed') ? 'failed'
+      : children.some(c => c.status === 'warning') ? 'warning' : 'success';
+    return { step: stepNumber, action: step, status, observations: {} as any, duration: Date.now() - stepStart, children };
+  }
+
+  private async runBlock(body: Action[], stepNumber: number, label: string, config: ScenarioConfig, state: RunState): Promise<StepResult[]> {
+    const results: StepResult[] = [];
+    for (let i = 0; i < body.length; i++) {
+      const result = await this.runStep(body[i], stepNumber, `${label}.${i + 1}`, config, state);
+      result.step = i + 1;
+      results.push(result);
+      if (result.status === 'failed' && config.stopOnFirstFailure) {
+        for (let j = i + 1; j < body.length; j++) {
+          state.skipped++;
+          results.push({ step: j + 1, action: body[j], status: 'skipped', observations: {} as any, duration: 0 });
+        }
+        break;
+      }
+    }
+    return results;
+  }
+
   private async launch(scenario: Scenario): Promise<void> {
     const cfg = scenario.config || {};
-    this.browser = await chromium.launch({ headless: this.options.headless !== false && cfg.headless !== false });
-    this.context = await this.browser.newContext({ viewport: cfg.viewport || { width: 1280, height: 720 } });
+    this.browser = this.options.browser || await getBrowserType(this.browserName(scenario)).launch({ headless: this.options.headless !== false && cfg.headless !== false });
+    this.context = await this.browser.newContext({
+      ...contextOptions(cfg, this.browserName(scenario)),
+      ...(this.options.recordHar ? harRecordOptions(this.options.recordHar) : {}),
+      ...videoOptions(cfg.video, path.join(this.outputDir, 'videos')),
+    });
+    await startTrace(this.context, cfg.trace, scenario.name);
+    if (this.options.replayHar) await replayHar(this.context, this.options.replayHar);
     this.page = await this.context.newPage();
-    this.observer = new Observer(this.page, this.screenshotDir);
-    this.executor = new ActionExecutor(this.page);
+    const mocker = new RouteMocker(this.page);
+    for (const mock of cfg.mocks || []) await mocker.add(mock);
+    this.observer = new Observer(this.page, this.screenshotDir, mocker, cfg);
+    // Baselines are kept per scenario, engine and device
+    const visual = new VisualComparator(this.page, {
+      baselineDir: path.resolve(cfg.baselineDir || 'fe-pilot-baselines'),
+      outputDir: path.join(this.outputDir, 'visual'),
+      key: path.join(this.slug(scenario.name), this.slug([this.browserName(scenario), this.options.variant].filter(Boolean).join('-'))),
+      threshold: cfg.visualThreshold,
+      createMissing: !isCI(),
+    });
+    this.executor = new ActionExecutor(this.page, mocker, this.observer, visual, new AccessibilityAuditor(this.page, cfg.wcagLevel));
+  }
+
+  private browserName(scenario: Scenario): BrowserName {
+    return this.options.browserName || scenario.config?.browser || 'chromium';
+  }
+
+  private slug(text: string): string {
+    return text.toLowerCase().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
   }
 
-  private async cleanup(): Promise<void> {
+  /**
+   * Close the page and context, keeping video/trace per config (the trace
+   * must be stopped before the context closes, the video is ready after)
+   */
+  private async cleanup(scenario: Scenario, failed: boolean): Promise<TestReport['artifacts']> {
+    const cfg = scenario.config || {};
+    const name = `${this.slug([scenario.name, this.browserName(scenario), this.options.variant].filter(Boolean).join('-'))}-${Date.now()}`;
+    const artifacts: TestReport['artifacts'] = {};
+    const video = this.page?.video();
+    try {
+      if (this.context) artifacts.trace = await stopTrace(this.context, cfg.trace, failed, path.join(this.outputDir, 'traces', `${name}.zip`));
+    } catch (e) {
+      console.log(`⚠️  Could not save trace: ${(e as Error).message}`);
+    }
     if (this.page) await this.page.close();
     if (this.context) await this.context.close();
-    if (this.browser) await this.browser.close();
+    try {
+      artifacts.video = await saveVideo(video, cfg.video, failed, path.join(this.outputDir, 'videos', `${name}.webm`));
+    } catch (e) {
+      console.log(`⚠️  Could not save video: ${(e as Error).message}`);
+    }
+    if (this.browser && !this.options.browser) await this.browser.close();
+    return artifacts;
   }
 
   private generateReport(scenario: Scenario, steps: StepResult[], status: 'passed' | 'failed' | 'warning', startTime: number, endTime: number, extras: any): TestReport {
-    const passed = steps.filter(s => s.status === 'success').length;
-    const failed = steps.filter(s => s.status === 'failed').length;
-    const warnings = steps.filter(s => s.status === 'warning').length;
-    const skipped = steps.filter(s => s.status === 'skipped').length;
-    const consoleErrors = steps.reduce((s, st) => s + (st.observations?.newConsoleLogs?.filter(l => l.type === 'error').length || 0), 0);
-    const networkErrors = steps.reduce((s, st) => s + (st.observations?.newNetworkRequests?.filter(r => r.status >= 400).length || 0), 0);
-    const validationErrors = steps.reduce((s, st) => s + (st.formValidation?.validationErrors?.length || 0), 0);
-    const screenshots = steps.map(s => s.observations?.screenshot).filter((s): s is string => !!s);
+    // Summary counts cover leaf steps, including those nested in control flow
+    const leaves = this.flattenSteps(steps);
+    const passed = leaves.filter(s => s.status === 'success').length;
+    const failed = leaves.filter(s => s.status === 'failed').length;
+    const warnings = leaves.filter(s => s.status === 'warning').length;
+    const skipped = leaves.filter(s => s.status === 'skipped').length;
+    const consoleErrors = leaves.reduce((s, st) => s + (st.observations?.newConsoleLogs?.filter(l => l.type === 'error').length || 0), 0);
+    const networkErrors = leaves.reduce((s, st) => s + (st.observations?.newNetworkRequests?.filter(r => r.status >= 400).length || 0), 0);
+    const validationErrors = leaves.reduce((s, st) => s + (st.formValidation?.validationErrors?.length || 0), 0);
+    const screenshots = leaves.map(s => s.observations?.screenshot).filter((s): s is string => !!s);
     const errorSummary = this.observer?.getErrorSummary();
     return {
-      scenario: scenario.name, status, duration: endTime - startTime, startTime, endTime, steps,
-      summary: { totalSteps: steps.length, passed, failed, warnings, skipped, bugsFound: 0, bugsFixed: 0, screenshots, consoleErrors, networkErrors, validationErrors, assertionsPassed: extras.assertionsPassed, assertionsFailed: extras.assertionsFailed, retriedSteps: extras.retriedSteps },
+      scenario: scenario.name, browser: this.browserName(scenario), variant: this.options.variant, status, duration: endTime - startTime, startTime, endTime, steps,
+      summary: { totalSteps: leaves.length, passed, failed, warnings, skipped, bugsFound: 0, bugsFixed: 0, screenshots, consoleErrors, networkErrors, validationErrors, assertionsPassed: extras.assertionsPassed, assertionsFailed: extras.assertionsFailed, retriedSteps: extras.retriedSteps },
       errorSummary,
     };
   }
 
+  private flattenSteps(steps: StepResult[]): StepResult[] {
+    return steps.flatMap(s => s.children ? this.flattenSteps(s.children) : [s]);
+  }
+
   private saveReport(report: TestReport): void {
-    const filename = `report-${Date.now()}.json`;
-    const filepath = path.join(this.outputDir, filename);
-    fs.writeFileSync(filepath, JSON.stringify(report, null, 2));
-    console.log(`\n📄 Report saved: ${filepath}`);
+    const reporters = createReporters(this.options.reporters || ['json', 'html']);
+    const timestamp = Date.now();
+    for (const reporter of reporters) {
+      const filepath = resolveReportPath(reporter, { outputDir: this.outputDir, reportFile: this.options.reportFile, reporterCount: reporters.length, timestamp });
+      fs.mkdirSync(path.dirname(filepath), { recursive: true });
+      fs.writeFileSync(filepath, reporter.render([report]));
+      console.log(`\n📄 Report saved (${reporter.name}): ${filepath}`);
+    }
   }
 
   private printSummary(report: TestReport): void {
@@ -179,6 +335,28 @@ export class Pilot {
     console.log(`Network Errors: ${report.summary.networkErrors}`);
     if (report.summary.validationErrors) console.log(`📝 Validation Errors: ${report.summary.validationErrors}`);
     console.log(`Screenshots: ${report.summary.screenshots.length}`);
+    if (report.artifacts?.video) console.log(`🎬 Video: ${report.artifacts.video}`);
+    if (report.artifacts?.trace) console.log(`🧭 Trace: ${report.artifacts.trace} (npx playwright show-trace <file>)`);
+    this.printHealedSelectors(report);
     console.log(`Duration: ${(report.duration / 1000).toFixed(2)}s\n${'='.repeat(80)}\n`);
   }
+
+  /**
+   * Steps that only passed through a fallback selector, with the YAML change to make
+   */
+  private printHealedSelectors(report: TestReport): void {
+    const healed = this.flattenSteps(report.steps).filter(s => s.selectorMatch?.healed);
+    if (!healed.length) return;
+    console.log(`\n🩹 Healed selectors - update the scenario so the primary selector matches again:`);
+    const seen = new Set<string>();
+    for (const s of healed) {
+      const match = s.selectorMatch!;
+      if (seen.has(match.original)) continue;
+      seen.add(match.original);
+      console.log(`   Step ${s.step} ${s.action.action}${s.action.description ? ` (${s.action.description})` : ''}`);
+      console.log(`   -  selector: ${JSON.stringify(match.original)}`);
+      console.log(`   +  selector: ${JSON.stringify(match.matched)}`);
+    }
+    console.log('');
+  }
 }
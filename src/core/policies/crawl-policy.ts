@@ -0,0 +1,186 @@
+import { Action } from '../../types';
+import { AIObservation, AIAction } from '../../types/ai';
+import { faker } from '../../utils/scenario-parser';
+import { ExplorationPolicy, PolicyOptions } from './policy';
+
+// Never clicked by default: anything that deletes data, ends the session or spends money
+export const DESTRUCTIVE_PATTERN = /\b(delete|remove|destroy|drop|erase|purge|discard|revoke|terminate|deactivate|unsubscribe|log ?out|sign ?out|reset|clear|pay|purchase|buy|checkout|place order|close account)\b/i;
+
+const MAX_LABEL_LENGTH = 80;
+// Safety net: explore runs a policy until its frontier is empty, not to a step limit
+const MAX_PAGES = 200;
+
+interface Interaction {
+  page: string;    // URL the element was seen on - navigated back to first if needed
+  kind: 'fill' | 'button' | 'link';
+  label: string;
+  actions: Action[];
+}
+
+/**
+ * Breadth-first crawl without an AI: every new same-origin page queues a
+ * form fill (inputs get faker data), a click per safe button and a click
+ * per link not seen before. Interactions run in discovery order, going
+ * back to their page when an earlier click navigated away. Console errors
+ * and failed requests are reported as concerns. Runs until nothing is left
+ * to try (or MAX_PAGES pages were explored).
+ */
+export class CrawlPolicy implements ExplorationPolicy {
+  name = 'crawl';
+  private origin: string;
+  private avoid: RegExp;
+  private pages = new Set<string>();
+  private seen = new Set<string>();
+  private queue: Interaction[] = [];
+  private skipped = new Set<string>();
+  private findings: string[] = [];
+  private interactions = 0;
+  private overBudget = 0;
+
+  constructor(private options: PolicyOptions) {
+    this.origin = new URL(options.url).origin;
+    this.avoid = options.avoid || DESTRUCTIVE_PATTERN;
+  }
+
+  decide(observation: AIObservation): AIAction {
+    const concerns = this.collectFindings(observation);
+    const page = this.pageUrl(observation.currentUrl);
+    if (page && !this.pages.has(page)) {
+      if (this.pages.size < MAX_PAGES) this.enqueue(page, observation);
+      else this.overBudget++;
+      this.pages.add(page);
+    }
+
+    const next = this.queue.shift();
+    if (!next) {
+      return {
+        decision: 'goal_achieved',
+        reasoning: `Crawl finished: ${this.pages.size} page(s), ${this.interactions} interaction(s), ${this.findings.length} problem(s) found`,
+        concerns,
+      };
+    }
+
+    this.interactions++;
+    const actions: Action[] = [];
+    if (page !== next.page) actions.push({ action: 'navigate', url: next.page, description: `Back to ${this.path(next.page)}` });
+    actions.push(...next.actions);
+    return {
+      decision: 'continue',
+      reasoning: `Crawl: ${next.kind} ${next.kind === 'fill' ? 'form' : `"${next.label}"`} on ${this.path(next.page)} (${this.queue.length} queued)`,
+      actions,
+      // Fields are independent; a click is pointless once the way back failed
+      stopOnError: next.kind !== 'fill',
+      concerns,
+    };
+  }
+
+  summary(): string[] {
+    const lines = [
+      `🕸️  Crawl: ${this.pages.size} page(s), ${this.interactions} interaction(s), ${this.queue.length} left unvisited`,
+    ];
+    if (this.overBudget) lines.push(`⏭️  Page limit (${MAX_PAGES}) reached: ${this.overBudget} page(s) seen but not explored`);
+    if (this.skipped.size) lines.push(`🚫 Not clicked (matches avoid pattern): ${[...this.skipped].slice(0, 10).join(', ')}`);
+    if (this.findings.length) {
+      lines.push(`🐛 Problems (${this.findings.length}):`);
+      this.findings.slice(0, 20).forEach(f => lines.push(`   - ${f}`));
+      if (this.findings.length > 20) lines.push(`   ... ${this.findings.length - 20} more in session.json`);
+    }
+    return lines;
+  }
+
+  private enqueue(page: string, observation: AIObservation): void {
+    const { inputs, fillable, buttons, links } = observation.domState;
+
+    // Hidden, checkbox and submit inputs can't be filled
+    const fields = (fillable || inputs).filter(label => label.length <= MAX_LABEL_LENGTH);
+    if (fields.length) {
+      this.queue.push({
+        page, kind: 'fill', label: fields.join(', '),
+        actions: fields.map(label => ({
+          action: 'fill_field', selector: this.fieldSelector(label), value: this.valueFor(label),
+          description: `Fill ${label}`, timeout: 3000,
+        } as Action)),
+      });
+    }
+
+    // Buttons are page-specific; links (navigation menus) are followed once per crawl
+    const targets: Array<['button' | 'link', string, string]> = [
+      ...buttons.map(label => ['button', label, `button:${page}:${label}`] as ['button', string, string]),
+      ...links.map(label => ['link', label, `link:${label}`] as ['link', string, string]),
+    ];
+    for (const [kind, label, key] of targets) {
+      if (!label || label.length > MAX_LABEL_LENGTH || this.seen.has(key)) continue;
+      this.seen.add(key);
+      if (this.avoid.test(label)) { this.skipped.add(label); continue; }
+      this.queue.push({
+        page, kind, label,
+        actions: [{
+          action: 'click', selector: `role=${kind}[name=${JSON.stringify(label)}]`,
+          description: `Click ${kind} "${label}"`, timeout: 5000, wait_after: 500,
+        }],
+      });
+    }
+  }
+
+  private collectFindings(observation: AIObservation): string[] {
+    const where = this.path(observation.currentUrl);
+    const found = [
+      ...observation.consoleLogs.filter(l => l.type === 'error').map(l => `Console error on ${where}: ${l.text.slice(0, 150)}`),
+      ...observation.networkRequests.filter(r => r.status >= 400).map(r => `${r.status} ${r.method} ${r.url} (on ${where})`),
+    ];
+    this.findings.push(...found);
+    return found;
+  }
+
+  /**
+   * DOMState lists inputs by placeholder, name or id
+   */
+  private fieldSelector(label: string): string {
+    const value = JSON.stringify(label);
+    return `[placeholder=${value}], [name=${value}], [id=${value}]`;
+  }
+
+  private valueFor(label: string): string {
+    const l = label.toLowerCase();
+    const credentials = this.options.credentials;
+    if (/pass(word)?|pwd/.test(l)) return credentials?.password || faker.internet.password();
+    if (/e-?mail/.test(l)) return credentials?.username.includes('@') ? credentials.username : faker.internet.email();
+    if (/user|login/.test(l)) return credentials?.username || faker.internet.username();
+    if (/phone|tel|mobile/.test(l)) return faker.phone.number();
+    if (/first.?name|given/.test(l)) return faker.person.firstName();
+    if (/last.?name|surname|family/.test(l)) return faker.person.lastName();
+    if (/name/.test(l)) return faker.person.fullName();
+    if (/city/.test(l)) return faker.location.city();
+    if (/address|street/.test(l)) return faker.location.address();
+    if (/zip|postal/.test(l)) return faker.location.zipCode();
+    if (/company|organi[sz]ation/.test(l)) return faker.company.name();
+    if (/date|birth|dob/.test(l)) return faker.date.past(30);
+    if (/number|qty|quantity|age|amount|count/.test(l)) return String(faker.number.int(1, 10));
+    if (/url|website|site/.test(l)) return 'https://example.com';
+    if (/message|comment|description|note|bio/.test(l)) return faker.lorem.sentence();
+    return faker.lorem.word();
+  }
+
+  /**
+   * `url` without its hash, or undefined when it is not on the crawled origin
+   */
+  private pageUrl(url: string): string | undefined {
+    try {
+      const parsed = new URL(url);
+      if (parsed.origin !== this.origin) return undefined;
+      parsed.hash = '';
+      return parsed.href;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private path(url: string): string {
+    try {
+      const { pathname, search } = new URL(url);
+      return pathname + search;
+    } catch {
+      return url;
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { ExplorationPolicyName } from '../../types/ai';
+import { ExplorationPolicy, PolicyOptions } from './policy';
+import { CrawlPolicy } from './crawl-policy';
+
+export { ExplorationPolicy, PolicyOptions } from './policy';
+export { DESTRUCTIVE_PATTERN } from './crawl-policy';
+
+const POLICIES: Record<ExplorationPolicyName, (options: PolicyOptions) => ExplorationPolicy> = {
+  crawl: (options) => new CrawlPolicy(options),
+};
+
+export const AVAILABLE_POLICIES = Object.keys(POLICIES) as ExplorationPolicyName[];
+
+export function createPolicy(name: string, options: PolicyOptions): ExplorationPolicy {
+  if (!POLICIES[name as ExplorationPolicyName]) {
+    throw new Error(`Unknown exploration policy: ${name}. Available: ${AVAILABLE_POLICIES.join(', ')}`);
+  }
+  return POLICIES[name as ExplorationPolicyName](options);
+}
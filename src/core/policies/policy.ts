@@ -0,0 +1,17 @@
+import { AIObservation, AIAction } from '../../types/ai';
+
+/**
+ * A built-in decision maker for the explorer loop: gets each observation
+ * and answers with the same AIAction an AI would write
+ */
+export interface ExplorationPolicy {
+  name: string;
+  decide(observation: AIObservation): AIAction;
+  summary(): string[];  // Printed when the exploration ends
+}
+
+export interface PolicyOptions {
+  url: string;                       // Starting URL - pages on other origins are not explored
+  credentials?: { username: string; password: string };
+  avoid?: RegExp;                    // Buttons/links never clicked (default: destructive ones)
+}
@@ -0,0 +1,359 @@
+import { Browser, BrowserContext, Page } from 'playwright';
+import * as path from 'path';
+import * as fs from 'fs';
+import { Scenario, Action, AssertionType, BrowserName } from '../types';
+import { ScenarioParser } from '../utils/scenario-parser';
+import { getBrowserType } from '../utils/browsers';
+
+export interface RecorderOptions {
+  output: string;          // Scenario YAML, rewritten after every recorded step
+  name?: string;           // Scenario name (default: from the start URL)
+  browser?: BrowserName;
+  viewport?: { width: number; height: number };
+}
+
+// What the in-page script reports back through the exposed binding
+interface RecordedEvent {
+  kind: 'click' | 'fill' | 'date' | 'select' | 'toggle' | 'key' | 'assert';
+  selector?: string;
+  label?: string;          // Visible text / name, used for the step description
+  value?: string;
+  checked?: boolean;
+  key?: string;
+  password?: boolean;
+  assertType?: AssertionType;
+}
+
+const BINDING = '__fePilotRecord';
+const NAVIGATION_WINDOW = 2000; // A navigation this soon after a step is that step's doing
+
+/**
+ * Record mode - turns manual interaction in a headed browser into scenario
+ * steps (fill_field, select_option, fill_date, toggle, press_key, click).
+ * Hotkeys in the page add assertions: Ctrl+Shift+A (next click: visible),
+ * Ctrl+Shift+T (next click: text), Ctrl+Shift+U (current URL).
+ */
+export class Recorder {
+  private browser: Browser | null = null;
+  private context: BrowserContext | null = null;
+  private page: Page | null = null;
+  private steps: Action[] = [];
+  private passwordNoted = false;
+  private lastStepAt = 0;
+  private lastUrl = '';
+  private startUrl = '';
+
+  constructor(private options: RecorderOptions) {}
+
+  /**
+   * Record until the browser window (or the process, via Ctrl+C) is closed
+   */
+  async record(url: string): Promise<Scenario> {
+    this.startUrl = url;
+    this.browser = await getBrowserType(this.options.browser).launch({ headless: false });
+    this.context = await this.browser.newContext({ viewport: this.options.viewport || { width: 1280, height: 720 } });
+    await this.context.exposeBinding(BINDING, (source, event: RecordedEvent) => {
+      if (source.frame === source.page.mainFrame()) this.onEvent(event);
+    });
+    await this.context.addInitScript(installRecorder, BINDING);
+    this.page = await this.context.newPage();
+
+    console.log(`\n⏺️  fe-pilot - Record Mode\n`);
+    console.log(`📍 URL: ${url}`);
+    console.log(`📄 Output: ${path.resolve(this.options.output)}`);
+    console.log(`⌨️  In the page: Ctrl+Shift+A assert visible · Ctrl+Shift+T assert text · Ctrl+Shift+U assert URL`);
+    console.log(`⏹️  Close the browser window (or press Ctrl+C) to finish\n`);
+
+    this.addStep({ action: 'navigate', url: '{{url}}', description: 'Open start page' });
+    await this.page.goto(url);
+    // Redirects of the start URL are part of the navigate step
+    this.lastUrl = this.page.url();
+    this.page.on('framenavigated', frame => {
+      if (frame === this.page!.mainFrame()) this.onNavigation(frame.url());
+    });
+
+    await new Promise<void>(resolve => {
+      const stop = () => { process.removeListener('SIGINT', stop); resolve(); };
+      this.page!.once('close', stop);
+      this.browser!.once('disconnected', stop);
+      process.once('SIGINT', stop);
+    });
+
+    await this.cleanup();
+    const scenario = this.scenario();
+    this.save();
+    console.log(`\n✅ Recorded ${scenario.steps.length} steps → ${path.resolve(this.options.output)}`);
+    return scenario;
+  }
+
+  private onEvent(event: RecordedEvent): void {
+    const step = this.toAction(event);
+    if (!step) return;
+    // Typing into the same field again only keeps the final value
+    const last = this.steps[this.steps.length - 1];
+    if (last && step.action === 'fill_field' && last.action === 'fill_field' && last.selector === step.selector) {
+      this.steps.pop();
+    }
+    this.addStep(step);
+  }
+
+  private toAction(event: RecordedEvent): Action | undefined {
+    const label = event.label ? ` "${event.label}"` : '';
+    switch (event.kind) {
+      case 'click':
+        return { action: 'click', selector: event.selector, description: `Click${label}` };
+      case 'fill': {
+        if (event.password) {
+          // The typed password is never written; the scenario takes it from credentials like hand-written ones
+          if (!this.passwordNoted) {
+            this.passwordNoted = true;
+            console.log(`   🔑 Password recorded as {{credentials.password}} - supply it with --credentials when running the scenario`);
+          }
+          return { action: 'fill_field', selector: event.selector, value: '{{credentials.password}}', description: `Fill${label}` };
+        }
+        return { action: 'fill_field', selector: event.selector, value: event.value ?? '', description: `Fill${label}` };
+      }
+      case 'date':
+        return { action: 'fill_date', selector: event.selector, date: event.value, description: `Set date${label}` };
+      case 'select':
+        return { action: 'select_option', selector: event.selector, option: event.value, description: `Select "${event.value}"${label ? ` in${label}` : ''}` };
+      case 'toggle':
+        return { action: 'toggle', selector: event.selector, checked: event.checked, description: `${event.checked ? 'Check' : 'Uncheck'}${label}` };
+      case 'key':
+        return { action: 'press_key', key: event.key, ...(event.selector ? { selector: event.selector } : {}), description: `Press ${event.key}` };
+      case 'assert':
+        if (event.assertType === 'url_contains') {
+          return { action: 'assert', assert_type: 'url_contains', expected: this.urlPath(this.page?.url() || ''), description: 'URL is as expected' };
+        }
+        if (event.assertType === 'element_text') {
+          return { action: 'assert', assert_type: 'element_text', selector: event.selector, expected: event.value, description: `Text of${label || ' element'}` };
+        }
+        return { action: 'assert', assert_type: 'element_visible', selector: event.selector, description: `${label ? label.trim() : 'Element'} is visible` };
+    }
+  }
+
+  /**
+   * Navigations caused by the last step become a url wait on that step;
+   * others (address bar, history) are recorded as navigate steps
+   */
+  private onNavigation(url: string): void {
+    if (!url || url === this.lastUrl || url === 'about:blank') return;
+    this.lastUrl = url;
+    const last = this.steps[this.steps.length - 1];
+    const target = this.urlPath(url);
+    if (last && last.action !== 'navigate' && last.action !== 'assert' && Date.now() - this.lastStepAt < NAVIGATION_WINDOW) {
+      if (target && !last.wait_for) {
+        last.wait_for = { condition: 'url_contains', value: target };
+        console.log(`   ↪️  waits for ${target}`);
+        this.save();
+      }
+      return;
+    }
+    const base = this.startUrl.replace(/\/$/, '');
+    this.addStep({ action: 'navigate', url: url.startsWith(base) ? `{{url}}${url.slice(base.length)}` : url, description: `Open ${target || url}` });
+  }
+
+  private addStep(step: Action): void {
+    this.steps.push(step);
+    this.lastStepAt = Date.now();
+    console.log(`   ⏺️  ${step.action}${step.assert_type ? ` ${step.assert_type}` : ''} ${step.selector || step.url || step.key || step.expected || ''}`);
+    this.save();
+  }
+
+  private scenario(): Scenario {
+    return {
+      name: this.options.name || `Recorded: ${this.startUrl}`,
+      description: `Recorded with fe-pilot record on ${new Date().toISOString().split('T')[0]}`,
+      url: this.startUrl,
+      tags: ['recorded'],
+      config: { headless: true, ...(this.options.viewport ? { viewport: this.options.viewport } : {}) },
+      steps: this.steps,
+    };
+  }
+
+  private save(): void {
+    const file = path.resolve(this.options.output);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, ScenarioParser.toYaml(this.scenario(), `Recorded by fe-pilot record from ${this.startUrl}`));
+  }
+
+  private urlPath(url: string): string | undefined {
+    try {
+      const { pathname, search } = new URL(url);
+      return pathname + search === '/' ? undefined : pathname + search;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async cleanup(): Promise<void> {
+    try {
+      if (this.context) await this.context.close();
+      if (this.browser) await this.browser.close();
+    } catch {
+      // Already closed by the user
+    }
+  }
+}
+
+/**
+ * Runs in every page (serialized by addInitScript - no outer references).
+ * Reports interactions to the `binding` function as RecordedEvents.
+ */
+function installRecorder(binding: string): void {
+  const w = window as any;
+  if (w.__fePilotRecorderInstalled) return;
+  w.__fePilotRecorderInstalled = true;
+
+  const send = (event: any) => { try { w[binding](event); } catch { /* binding not ready */ } };
+  const TEST_ATTRS = ['data-testid', 'data-test-id', 'data-test', 'data-cy', 'data-qa'];
+  const INTERACTIVE = 'button, a, input, select, textarea, label, summary, [role=button], [role=link], [role=menuitem], [role=option], [role=tab], [role=checkbox], [role=switch], [role=radio]';
+  const KEYS = ['Enter', 'Escape', 'ArrowDown', 'ArrowUp', 'ArrowLeft', 'ArrowRight'];
+  const DATE_TYPES = ['date', 'datetime-local', 'month', 'week', 'time'];
+  const TEXT_TYPES = ['text', 'email', 'password', 'search', 'tel', 'url', 'number', ''];
+
+  const quote = (value: string) => JSON.stringify(value);
+  const unique = (selector: string) => { try { return document.querySelectorAll(selector).length === 1; } catch { return false; } };
+  // Generated ids (React useId, UI libraries, long numbers) change between builds
+  const stableId = (id: string) => !!id && id.length < 40 && !/\d{3,}|^[:\d]|^(radix|headlessui|mui|react|ember|ext|rc)[-_]/i.test(id);
+  const textOf = (el: Element) => ((el as HTMLElement).innerText || (el as HTMLInputElement).value || '').trim().replace(/\s+/g, ' ');
+
+  const anchorSelector = (el: Element): string | undefined => {
+    for (const attr of TEST_ATTRS) {
+      const value = el.getAttribute(attr);
+      if (value && unique(`[${attr}=${quote(value)}]`)) return `[${attr}=${quote(value)}]`;
+    }
+    if (stableId(el.id) && unique(`#${CSS.escape(el.id)}`)) return `#${CSS.escape(el.id)}`;
+    return undefined;
+  };
+
+  const selectorFor = (el: Element): string => {
+    const anchor = anchorSelector(el);
+    if (anchor) return anchor;
+    const tag = el.tagName.toLowerCase();
+    for (const attr of ['name', 'aria-label', 'placeholder', 'title']) {
+      const value = el.getAttribute(attr);
+      if (value && unique(`${tag}[${attr}=${quote(value)}]`)) return `${tag}[${attr}=${quote(value)}]`;
+    }
+    const role = el.getAttribute('role');
+    if (role) {
+      const value = el.getAttribute('aria-label') || textOf(el);
+      if (value && value.length <= 50) return `role=${role}[name=${quote(value)}]`;
+    }
+    const text = textOf(el);
+    if (text && text.length <= 50 && !['input', 'select', 'textarea'].includes(tag)) {
+      const matches = Array.from(document.querySelectorAll(tag)).filter(e => textOf(e).includes(text));
+      if (matches.length === 1) return `${tag}:has-text(${quote(text)})`;
+    }
+    // CSS path up to the nearest anchored ancestor
+    const parts: string[] = [];
+    let node: Element | null = el;
+    while (node && node !== document.body) {
+      const nodeAnchor = node !== el ? anchorSelector(node) : undefined;
+      if (nodeAnchor) { parts.unshift(nodeAnchor); break; }
+      const nodeTag: string = node.tagName.toLowerCase();
+      const siblings: Element[] = node.parentElement ? Array.from(node.parentElement.children).filter(c => c.tagName === node!.tagName) : [];
+      parts.unshift(siblings.length > 1 ? `${nodeTag}:nth-of-type(${siblings.indexOf(node) + 1})` : nodeTag);
+      node = node.parentElement;
+    }
+    return parts.join(' > ');
+  };
+
+  const labelFor = (el: Element): string | undefined => {
+    const input = el as HTMLInputElement;
+    const label = (input.labels && input.labels[0] && textOf(input.labels[0])) || el.getAttribute('aria-label') || el.getAttribute('placeholder') || el.getAttribute('name') || textOf(el);
+    return label ? label.slice(0, 60) : undefined;
+  };
+
+  // Pending text input, reported on change/blur or before the next click/key
+  const reported = new WeakMap<Element, string>();
+  let dirty: HTMLInputElement | HTMLTextAreaElement | null = null;
+  const flush = () => {
+    const el = dirty;
+    dirty = null;
+    if (!el || reported.get(el) === el.value) return;
+    reported.set(el, el.value);
+    send({ kind: 'fill', selector: selectorFor(el), label: labelFor(el), value: el.value, password: (el as HTMLInputElement).type === 'password' });
+  };
+
+  let assertMode: 'element_visible' | 'element_text' | null = null;
+  let badge: HTMLElement | null = null;
+  const setAssertMode = (mode: typeof assertMode) => {
+    assertMode = mode;
+    if (badge) { badge.remove(); badge = null; }
+    if (!mode) return;
+    badge = document.createElement('div');
+    badge.textContent = `fe-pilot: click an element to assert ${mode === 'element_text' ? 'its text' : 'it is visible'} (Esc cancels)`;
+    badge.setAttribute('style', 'position:fixed;top:8px;right:8px;z-index:2147483647;background:#cf222e;color:#fff;font:13px sans-serif;padding:6px 10px;border-radius:6px;pointer-events:none');
+    document.documentElement.appendChild(badge);
+  };
+
+  document.addEventListener('keydown', (e: KeyboardEvent) => {
+    if (e.ctrlKey && e.shiftKey && ['KeyA', 'KeyT', 'KeyU'].includes(e.code)) {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === 'KeyU') send({ kind: 'assert', assertType: 'url_contains' });
+      else setAssertMode(e.code === 'KeyT' ? 'element_text' : 'element_visible');
+      return;
+    }
+    if (assertMode && e.key === 'Escape') { setAssertMode(null); e.preventDefault(); return; }
+    if (!KEYS.includes(e.key)) return;
+    flush();
+    const target = e.target as Element;
+    const inField = target && target !== document.body && target.matches('input, textarea, select, [contenteditable]');
+    send({ kind: 'key', key: e.key, selector: inField ? selectorFor(target) : undefined });
+  }, true);
+
+  document.addEventListener('click', (e: MouseEvent) => {
+    const raw = e.target as Element;
+    if (!raw || !raw.closest) return;
+    const el = raw.closest(INTERACTIVE) || raw;
+
+    if (assertMode) {
+      e.preventDefault();
+      e.stopPropagation();
+      send({ kind: 'assert', assertType: assertMode, selector: selectorFor(el), label: labelFor(el), value: textOf(el).slice(0, 200) });
+      setAssertMode(null);
+      return;
+    }
+
+    flush();
+    const input = (el.tagName === 'LABEL' ? (el as HTMLLabelElement).control : el) as HTMLInputElement | null;
+    // Checkboxes, radios and selects are reported by their change event
+    if (input && input.tagName === 'INPUT' && ['checkbox', 'radio'].includes(input.type)) return;
+    if (['SELECT', 'OPTION'].includes(el.tagName)) return;
+    if (el.tagName === 'INPUT' && (TEXT_TYPES.includes((el as HTMLInputElement).type) || DATE_TYPES.includes((el as HTMLInputElement).type))) return;
+    if (el.tagName === 'TEXTAREA') return;
+
+    const role = el.getAttribute('role');
+    if (role === 'switch' || role === 'checkbox') {
+      // aria-checked is updated by the page's own handler
+      setTimeout(() => send({ kind: 'toggle', selector: selectorFor(el), label: labelFor(el), checked: el.getAttribute('aria-checked') === 'true' }), 0);
+      return;
+    }
+    send({ kind: 'click', selector: selectorFor(el), label: textOf(el).slice(0, 60) || labelFor(el) });
+  }, true);
+
+  document.addEventListener('input', (e: Event) => {
+    const el = e.target as HTMLInputElement;
+    if (el.tagName === 'TEXTAREA' || (el.tagName === 'INPUT' && TEXT_TYPES.includes(el.type))) dirty = el;
+  }, true);
+
+  document.addEventListener('change', (e: Event) => {
+    const el = e.target as HTMLInputElement;
+    if (el.tagName === 'SELECT') {
+      const select = el as unknown as HTMLSelectElement;
+      const option = select.selectedOptions[0];
+      send({ kind: 'select', selector: selectorFor(select), label: labelFor(select), value: option ? option.text.trim() : select.value });
+    } else if (el.tagName === 'INPUT' && ['checkbox', 'radio'].includes(el.type)) {
+      send({ kind: 'toggle', selector: selectorFor(el), label: labelFor(el), checked: el.checked });
+    } else if (el.tagName === 'INPUT' && DATE_TYPES.includes(el.type)) {
+      send({ kind: 'date', selector: selectorFor(el), label: labelFor(el), value: el.value });
+    } else if (el === dirty || el.tagName === 'TEXTAREA' || (el.tagName === 'INPUT' && TEXT_TYPES.includes(el.type))) {
+      dirty = el;
+      flush();
+    }
+  }, true);
+
+  window.addEventListener('pagehide', flush);
+}
@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { TestReport, StepResult, ErrorCategory } from '../../types';
+import { Reporter, reportTitle } from './reporter';
+
+const STATUS_ICON: Record<string, string> = {
+  success: '✅', passed: '✅', failed: '❌', warning: '⚠️', skipped: '⏭️',
+};
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 0; padding: 24px; color: #1f2328; background: #f6f8fa; }
+  h1 { margin: 0 0 4px; font-size: 22px; }
+  h2 { font-size: 17px; margin: 28px 0 10px; }
+  .meta { color: #59636e; font-size: 13px; }
+  .badge { display: inline-block; padding: 2px 10px; border-radius: 12px; font-size: 12px; font-weight: 600; text-transform: uppercase; color: #fff; }
+  .badge.passed, .badge.success { background: #1a7f37; } .badge.failed { background: #cf222e; }
+  .badge.warning { background: #9a6700; } .badge.skipped { background: #818b98; }
+  .cards { display: flex; flex-wrap: wrap; gap: 12px; margin-top: 16px; }
+  .card { background: #fff; border: 1px solid #d1d9e0; border-radius: 8px; padding: 10px 16px; min-width: 110px; }
+  .card .value { font-size: 20px; font-weight: 600; } .card .label { font-size: 12px; color: #59636e; }
+  .step { background: #fff; border: 1px solid #d1d9e0; border-left: 4px solid #818b98; border-radius: 6px; margin: 8px 0; padding: 10px 14px; }
+  .step.success { border-left-color: #1a7f37; } .step.failed { border-left-color: #cf222e; } .step.warning { border-left-color: #9a6700; }
+  .step .children { margin-left: 16px; }
+  .step-title { font-weight: 600; } .duration { color: #59636e; font-size: 12px; margin-left: 8px; }
+  .error { color: #cf222e; white-space: pre-wrap; font-family: ui-monospace, monospace; font-size: 12px; margin: 6px 0; }
+  details { margin: 6px 0; } summary { cursor: pointer; font-size: 13px; color: #0969da; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; margin-top: 6px; }
+  th, td { border-bottom: 1px solid #eaeef2; padding: 4px 6px; text-align: left; vertical-align: top; word-break: break-all; }
+  th { background: #f6f8fa; }
+  tr.bad td { color: #cf222e; }
+  img.shot { max-width: 100%; border: 1px solid #d1d9e0; border-radius: 4px; margin-top: 6px; }
+  .visual { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; font-size: 12px; color: #59636e; }
+  .bucket { margin-bottom: 8px; }
+  ul.assertions { margin: 6px 0; padding-left: 18px; font-size: 13px; }
+`;
+
+/**
+ * Single-file HTML report for non-technical readers. Screenshots are
+ * inlined as data URIs so the file can be shared on its own.
+ */
+export class HtmlReporter implements Reporter {
+  name = 'html';
+  extension = '.html';
+
+  render(reports: TestReport[]): string {
+    const title = reports.length === 1 ? reports[0].scenario : `${reports.length} scenarios`;
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>fe-pilot report - ${this.escape(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${reports.map(r => this.renderScenario(r, reportTitle(r, reports))).join('\n<hr>\n')}
+<p class="meta">Generated by fe-pilot on ${this.escape(new Date().toISOString())}</p>
+</body>
+</html>
+`;
+  }
+
+  private renderScenario(report: TestReport, title: string): string {
+    const s = report.summary;
+    const cards: Array<[string, number | string]> = [
+      ['Steps', s.totalSteps], ['Passed', s.passed], ['Failed', s.failed], ['Warnings', s.warnings],
+      ['Skipped', s.skipped], ['Assertions ✅/❌', `${s.assertionsPassed}/${s.assertionsFailed}`],
+      ['Console errors', s.consoleErrors], ['Network errors', s.networkErrors], ['Validation errors', s.validationErrors],
+    ];
+    return `<section>
+<h1>${this.escape(title)} <span class="badge ${report.status}">${report.status}</span></h1>
+<div class="meta">${report.browser ? `${this.escape(report.browser)} · ` : ''}${report.variant ? `${this.escape(report.variant)} · ` : ''}Started ${this.escape(new Date(report.startTime).toLocaleString())} · Duration ${(report.duration / 1000).toFixed(2)}s</div>
+${report.artifacts ? this.renderArtifacts(report.artifacts) : ''}
+<div class="cards">${cards.map(([label, value]) => `<div class="card"><div class="value">${this.escape(String(value))}</div><div class="label">${this.escape(label)}</div></div>`).join('')}</div>
+${report.errorSummary ? this.renderErrorSummary(report) : ''}
+<h2>Steps</h2>
+${report.steps.map(step => this.renderStep(step)).join('\n')}
+</section>`;
+  }
+
+  private renderArtifacts(artifacts: NonNullable<TestReport['artifacts']>): string {
+    const links: string[] = [];
+    if (artifacts.video) links.push(`🎬 <a href="${this.escape(pathToFileURL(artifacts.video).href)}">Video</a>`);
+    if (artifacts.trace) links.push(`🧭 <a href="${this.escape(pathToFileURL(artifacts.trace).href)}">Trace</a> <code>npx playwright show-trace ${this.escape(artifacts.trace)}</code>`);
+    return links.length ? `<div class="meta">${links.join(' · ')}</div>` : '';
+  }
+
+  private renderErrorSummary(report: TestReport): string {
+    const buckets: Array<[string, ErrorCategory]> = [
+      ['🔴 Critical', report.errorSummary!.critical],
+      ['🟡 Warning', report.errorSummary!.warning],
+      ['🔵 Info', report.errorSummary!.info],
+    ];
+    return `<h2>Console error summary</h2>
+${buckets.map(([label, bucket]) => `<details class="bucket"${label.includes('Critical') && bucket.count ? ' open' : ''}>
+<summary>${label} (${bucket.count})</summary>
+${bucket.items.length ? `<table><tr><th>Message</th><th>Source</th><th>Count</th></tr>
+${bucket.items.map(i => `<tr><td>${this.escape(i.message)}</td><td>${this.escape(i.source)}</td><td>${i.count}</td></tr>`).join('\n')}
+</table>` : '<div class="meta">None</div>'}
+</details>`).join('\n')}`;
+  }
+
+  private renderStep(step: StepResult): string {
+    const label = step.branch ? ` (${step.branch})` : step.iteration ? ` (iteration ${step.iteration})` : '';
+    const obs = step.observations || ({} as any);
+    const consoleLogs = obs.newConsoleLogs || [];
+    const requests = obs.newNetworkRequests || [];
+    const parts: string[] = [];
+
+    if (step.error) parts.push(`<div class="error">${this.escape(step.error)}</div>`);
+    if (step.selectorMatch?.healed) {
+      parts.push(`<div class="meta">🩹 Healed selector: <code>${this.escape(step.selectorMatch.original)}</code> → <code>${this.escape(step.selectorMatch.matched)}</code></div>`);
+    }
+    if (step.assertions?.length) {
+      parts.push(`<ul class="assertions">${step.assertions.map(a =>
+        `<li>${a.passed ? '✅' : '❌'} <b>${this.escape(a.type)}</b> - ${this.escape(a.message || '')}${a.actual !== undefined && !a.passed ? ` (actual: ${this.escape(String(a.actual))})` : ''}</li>`).join('')}</ul>`);
+      step.assertions.filter(a => !a.passed && a.images).forEach(a => parts.push(this.renderVisualDiff(a.images!)));
+    }
+    if (consoleLogs.length) {
+      const errors = consoleLogs.filter((l: any) => l.type === 'error').length;
+      parts.push(`<details${errors ? ' open' : ''}><summary>Console (${consoleLogs.length}${errors ? `, ${errors} errors` : ''})</summary>
+<table><tr><th>Type</th><th>Message</th><th>Location</th></tr>
+${consoleLogs.map((l: any) => `<tr class="${l.type === 'error' ? 'bad' : ''}"><td>${this.escape(l.type)}</td><td>${this.escape(l.text)}</td><td>${this.escape(l.location || '')}</td></tr>`).join('\n')}
+</table></details>`);
+    }
+    if (requests.length) {
+      const failed = requests.filter((r: any) => r.status >= 400).length;
+      parts.push(`<details${failed ? ' open' : ''}><summary>Network (${requests.length}${failed ? `, ${failed} failed` : ''})</summary>
+<table><tr><th>Method</th><th>Status</th><th>URL</th><th>Duration</th></tr>
+${requests.map((r: any) => `<tr class="${r.status >= 400 ? 'bad' : ''}"><td>${this.escape(r.method)}</td><td>${r.status}</td><td>${this.escape(r.url)}${r.mocked ? ' <em>(mocked)</em>' : ''}</td><td>${Math.round(r.duration)}ms</td></tr>${r.status >= 400 && r.responseBody ? `
+<tr class="bad"><td></td><td colspan="3"><div class="error">${this.escape(r.responseBody)}</div></td></tr>` : ''}`).join('\n')}
+</table></details>`);
+    }
+    if (obs.screenshot) {
+      const src = this.inlineImage(obs.screenshot);
+      if (src) parts.push(`<details open><summary>Screenshot${obs.screenshotName ? `: ${this.escape(obs.screenshotName)}` : ''}</summary><img class="shot" alt="Step ${step.step} screenshot" src="${src}"></details>`);
+    }
+    if (step.children?.length) {
+      parts.push(`<div class="children">${step.children.map(c => this.renderStep(c)).join('\n')}</div>`);
+    }
+
+    return `<div class="step ${step.status}">
+<div><span class="step-title">${STATUS_ICON[step.status] || ''} Step ${step.step}${this.escape(label)}: ${this.escape(step.action.action)}</span> ${this.escape(step.action.description || '')}<span class="duration">${step.duration}ms</span></div>
+${parts.join('\n')}
+</div>`;
+  }
+
+  private renderVisualDiff(images: { baseline: string; actual?: string; diff?: string }): string {
+    const cells = (['baseline', 'actual', 'diff'] as const)
+      .map(kind => [kind, images[kind] && this.inlineImage(images[kind]!)] as const)
+      .filter(([, src]) => src)
+      .map(([kind, src]) => `<div>${kind}<img class="shot" alt="${kind}" src="${src}"></div>`);
+    return `<details open><summary>Visual diff</summary><div class="visual">${cells.join('')}</div></details>`;
+  }
+
+  private inlineImage(file: string): string | undefined {
+    try {
+      const ext = path.extname(file).slice(1).toLowerCase();
+      const mime = ext === 'jpg' || ext === 'jpeg' ? 'image/jpeg' : 'image/png';
+      return `data:${mime};base64,${fs.readFileSync(file).toString('base64')}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private escape(value: string): string {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,42 @@
+import * as path from 'path';
+import { Reporter } from './reporter';
+import { JsonReporter } from './json-reporter';
+import { JUnitReporter } from './junit-reporter';
+import { TapReporter } from './tap-reporter';
+import { HtmlReporter } from './html-reporter';
+
+export { Reporter, StepCase, collectStepCases, failureMessages, reportTitle } from './reporter';
+
+const REPORTERS: Record<string, () => Reporter> = {
+  json: () => new JsonReporter(),
+  junit: () => new JUnitReporter(),
+  tap: () => new TapReporter(),
+  html: () => new HtmlReporter(),
+};
+
+export const AVAILABLE_REPORTERS = Object.keys(REPORTERS);
+
+/**
+ * Build reporters from a list of format names (e.g. ['junit', 'json'])
+ */
+export function createReporters(names: string[]): Reporter[] {
+  const unknown = names.filter(n => !REPORTERS[n]);
+  if (unknown.length) {
+    throw new Error(`Unknown reporter(s): ${unknown.join(', ')}. Available: ${AVAILABLE_REPORTERS.join(', ')}`);
+  }
+  return [...new Set(names)].map(n => REPORTERS[n]());
+}
+
+/**
+ * Where a reporter writes its output. Without --report-file reports go to
+ * `<outputDir>/report-<timestamp><ext>`. With a single reporter the report
+ * file is used as-is; with several, each gets the report file's base name
+ * plus its own extension.
+ */
+export function resolveReportPath(reporter: Reporter, options: { outputDir: string; reportFile?: string; reporterCount: number; timestamp: number }): string {
+  if (!options.reportFile) return path.join(options.outputDir, `report-${options.timestamp}${reporter.extension}`);
+  const file = path.resolve(options.reportFile);
+  if (options.reporterCount === 1) return file;
+  const ext = path.extname(file);
+  return `${ext ? file.slice(0, -ext.length) : file}${reporter.extension}`;
+}
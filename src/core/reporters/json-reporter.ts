@@ -0,0 +1,11 @@
+import { TestReport } from '../../types';
+import { Reporter } from './reporter';
+
+export class JsonReporter implements Reporter {
+  name = 'json';
+  extension = '.json';
+
+  render(reports: TestReport[]): string {
+    return JSON.stringify(reports.length === 1 ? reports[0] : reports, null, 2);
+  }
+}
@@ -0,0 +1,73 @@
+import { TestReport } from '../../types';
+import { Reporter, collectStepCases, failureMessages, reportTitle } from './reporter';
+
+/**
+ * JUnit XML - one <testsuite> per scenario, one <testcase> per step.
+ * Screenshots (and the run's video/trace, on the suite) are listed as
+ * [[ATTACHMENT|path]] lines in <system-out>, the convention understood by
+ * the Jenkins/GitLab JUnit attachment support.
+ */
+export class JUnitReporter implements Reporter {
+  name = 'junit';
+  extension = '.xml';
+
+  render(reports: TestReport[]): string {
+    const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+    const totals = reports.reduce((t, r) => {
+      const cases = collectStepCases(r.steps);
+      t.tests += cases.length;
+      t.failures += cases.filter(c => c.result.status === 'failed').length;
+      t.skipped += cases.filter(c => c.result.status === 'skipped').length;
+      t.time += r.duration;
+      return t;
+    }, { tests: 0, failures: 0, skipped: 0, time: 0 });
+    lines.push(`<testsuites name="fe-pilot" tests="${totals.tests}" failures="${totals.failures}" skipped="${totals.skipped}" time="${this.seconds(totals.time)}">`);
+
+    for (const report of reports) {
+      const title = reportTitle(report, reports);
+      const cases = collectStepCases(report.steps);
+      const failures = cases.filter(c => c.result.status === 'failed').length;
+      const skipped = cases.filter(c => c.result.status === 'skipped').length;
+      lines.push(`  <testsuite name="${this.escape(title)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${this.seconds(report.duration)}" timestamp="${new Date(report.startTime).toISOString()}">`);
+
+      for (const c of cases) {
+        const step = c.result;
+        lines.push(`    <testcase name="${this.escape(c.name)}" classname="${this.escape(title)}" time="${this.seconds(step.duration)}">`);
+        if (step.status === 'skipped') {
+          lines.push(`      <skipped/>`);
+        } else if (step.status === 'failed') {
+          const messages = failureMessages(step);
+          lines.push(`      <failure message="${this.escape(messages[0] || 'Step failed')}" type="${this.escape(step.action.action)}">${this.escape(messages.join('\n'))}</failure>`);
+        }
+        const out: string[] = [];
+        if (step.status === 'warning') out.push('Step completed with warnings');
+        if (step.observations?.screenshot) out.push(`[[ATTACHMENT|${step.observations.screenshot}]]`);
+        (step.assertions || []).filter(a => !a.passed && a.images).forEach(a => {
+          [a.images!.diff, a.images!.actual].filter(Boolean).forEach(file => out.push(`[[ATTACHMENT|${file}]]`));
+        });
+        if (out.length) lines.push(`      <system-out>${this.escape(out.join('\n'))}</system-out>`);
+        lines.push(`    </testcase>`);
+      }
+      const artifacts = [report.artifacts?.video, report.artifacts?.trace].filter(Boolean);
+      if (artifacts.length) lines.push(`    <system-out>${this.escape(artifacts.map(file => `[[ATTACHMENT|${file}]]`).join('\n'))}</system-out>`);
+      lines.push(`  </testsuite>`);
+    }
+    lines.push('</testsuites>');
+    return lines.join('\n') + '\n';
+  }
+
+  private seconds(ms: number): string {
+    return ((ms || 0) / 1000).toFixed(3);
+  }
+
+  private escape(value: string): string {
+    return String(value)
+      // Strip characters that are not allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
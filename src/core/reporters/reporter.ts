@@ -0,0 +1,57 @@
+import { TestReport, StepResult } from '../../types';
+
+/**
+ * A report format. Reporters render one or more scenario reports into a
+ * single file (e.g. one JUnit document with a testsuite per scenario).
+ */
+export interface Reporter {
+  name: string;
+  extension: string;
+  render(reports: TestReport[]): string;
+}
+
+export interface StepCase {
+  label: string;
+  name: string;
+  result: StepResult;
+}
+
+/**
+ * Flatten a report's steps into leaf cases, labelling nested control-flow
+ * steps with their path (e.g. "4.then.1", "6[2].1").
+ */
+export function collectStepCases(steps: StepResult[], prefix: string = ''): StepCase[] {
+  const cases: StepCase[] = [];
+  for (const step of steps) {
+    let label = prefix ? `${prefix}.${step.step}` : String(step.step);
+    if (prefix && step.branch) label = `${prefix}.${step.branch}.${step.step}`;
+    else if (prefix && step.iteration) label = `${prefix}[${step.iteration}].${step.step}`;
+    if (step.children) {
+      cases.push(...collectStepCases(step.children, label));
+      continue;
+    }
+    const description = step.action.description ? ` - ${step.action.description}` : '';
+    cases.push({ label, name: `Step ${label}: ${step.action.action}${description}`, result: step });
+  }
+  return cases;
+}
+
+/**
+ * Failure messages for a step: the step error plus every failed assertion
+ */
+export function failureMessages(step: StepResult): string[] {
+  const messages = (step.assertions || []).filter(a => !a.passed).map(a => `${a.type}: ${a.message || 'assertion failed'}`);
+  if (step.error && !messages.some(m => m.endsWith(step.error!))) messages.unshift(step.error);
+  return messages;
+}
+
+/**
+ * Scenario title, suffixed with the engine when the same scenario was run
+ * in several browsers and with the matrix variant (e.g. "Login [firefox] [iPhone 13]")
+ */
+export function reportTitle(report: TestReport, reports: TestReport[]): string {
+  const multiEngine = reports.some(r => r !== report && r.scenario === report.scenario && r.browser !== report.browser);
+  let title = multiEngine && report.browser ? `${report.scenario} [${report.browser}]` : report.scenario;
+  if (report.variant) title += ` [${report.variant}]`;
+  return title;
+}
@@ -0,0 +1,50 @@
+import { TestReport } from '../../types';
+import { Reporter, collectStepCases, failureMessages, reportTitle } from './reporter';
+
+/**
+ * TAP version 13 - one test point per step, failures and screenshots in
+ * the YAML diagnostic block
+ */
+export class TapReporter implements Reporter {
+  name = 'tap';
+  extension = '.tap';
+
+  render(reports: TestReport[]): string {
+    const points = reports.flatMap(r => collectStepCases(r.steps).map(c => ({ scenario: reportTitle(r, reports), ...c })));
+    const lines: string[] = ['TAP version 13', `1..${points.length}`];
+
+    points.forEach((p, i) => {
+      const step = p.result;
+      const name = `${reports.length > 1 ? `${p.scenario} > ` : ''}${p.name}`.replace(/#/g, '\\#');
+      const ok = step.status !== 'failed';
+      const directive = step.status === 'skipped' ? ' # SKIP stopped after earlier failure' : '';
+      lines.push(`${ok ? 'ok' : 'not ok'} ${i + 1} - ${name}${directive}`);
+
+      const diag: string[] = [];
+      if (!ok) {
+        const messages = failureMessages(step);
+        diag.push(`message: ${this.yamlString(messages[0] || 'Step failed')}`);
+        if (messages.length > 1) {
+          diag.push('failures:');
+          messages.forEach(m => diag.push(`  - ${this.yamlString(m)}`));
+        }
+      }
+      if (step.status === 'warning') diag.push('severity: warning');
+      if (step.observations?.screenshot) diag.push(`screenshot: ${this.yamlString(step.observations.screenshot)}`);
+      if (diag.length) {
+        diag.push(`duration_ms: ${step.duration}`);
+        lines.push('  ---', ...diag.map(d => `  ${d}`), '  ...');
+      }
+    });
+    // Video/trace per run as TAP comments
+    reports.forEach(r => {
+      if (r.artifacts?.video) lines.push(`# video (${reportTitle(r, reports)}): ${r.artifacts.video}`);
+      if (r.artifacts?.trace) lines.push(`# trace (${reportTitle(r, reports)}): ${r.artifacts.trace}`);
+    });
+    return lines.join('\n') + '\n';
+  }
+
+  private yamlString(value: string): string {
+    return JSON.stringify(value);
+  }
+}
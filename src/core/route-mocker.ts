@@ -0,0 +1,86 @@
+import { Page, Route, Request } from 'playwright';
+import * as path from 'path';
+import * as fs from 'fs';
+import { Action, RouteMock } from '../types';
+
+interface ActiveMock {
+  mock: RouteMock;
+  matcher: string | RegExp;
+  handler: (route: Route) => Promise<void>;
+  hits: number;
+}
+
+/**
+ * Route mocks for a page (mock_route / unmock_route steps and config.mocks).
+ * Remembers which requests it answered so the Observer can mark them.
+ */
+export class RouteMocker {
+  private mocks: ActiveMock[] = [];
+  private mockedRequests = new WeakSet<Request>();
+
+  constructor(private page: Page) {}
+
+  static fromAction(action: Action): RouteMock {
+    if (!action.url) throw new Error('mock_route requires url');
+    const { url, method, status, body, fixture, headers, content_type, delay, abort, times } = action;
+    return { url, method, status: status === undefined ? undefined : Number(status), body, fixture, headers, content_type, delay, abort, times };
+  }
+
+  async add(mock: RouteMock): Promise<void> {
+    if (!mock.url) throw new Error('Route mock requires url');
+    const response = mock.abort ? undefined : this.buildResponse(mock);
+    const entry: ActiveMock = { mock, matcher: this.toMatcher(mock.url), hits: 0, handler: async () => {} };
+
+    entry.handler = async (route: Route) => {
+      const request = route.request();
+      if (mock.method && request.method().toUpperCase() !== mock.method.toUpperCase()) return route.fallback();
+      if (mock.times !== undefined && entry.hits >= mock.times) return route.fallback();
+      entry.hits++;
+      this.mockedRequests.add(request);
+      if (mock.delay) await new Promise(resolve => setTimeout(resolve, mock.delay));
+      if (mock.abort) return route.abort(typeof mock.abort === 'string' ? mock.abort : 'failed');
+      await route.fulfill(response!);
+    };
+
+    await this.page.route(entry.matcher, entry.handler);
+    this.mocks.push(entry);
+    console.log(`   🎭 Mocking ${mock.method ? `${mock.method.toUpperCase()} ` : ''}${mock.url} → ${mock.abort ? `abort (${mock.abort === true ? 'failed' : mock.abort})` : response!.status}`);
+  }
+
+  /**
+   * Remove mocks registered for `url` (exact pattern), or all mocks
+   */
+  async remove(url?: string): Promise<void> {
+    const removed = this.mocks.filter(m => url === undefined || m.mock.url === url);
+    if (url !== undefined && !removed.length) throw new Error(`No route mock registered for ${url}`);
+    for (const entry of removed) await this.page.unroute(entry.matcher, entry.handler);
+    this.mocks = this.mocks.filter(m => !removed.includes(m));
+    console.log(`   🎭 Removed ${removed.length} route mock(s)`);
+  }
+
+  isMocked(request: Request): boolean {
+    return this.mockedRequests.has(request);
+  }
+
+  private toMatcher(url: string): string | RegExp {
+    const regex = url.match(/^\/(.+)\/([dgimsuy]*)$/);
+    return regex ? new RegExp(regex[1], regex[2]) : url;
+  }
+
+  private buildResponse(mock: RouteMock): { status: number; headers?: Record<string, string>; contentType?: string; body?: string | Buffer } {
+    let body: string | Buffer | undefined;
+    let contentType = mock.content_type;
+    if (mock.fixture) {
+      const file = path.resolve(mock.fixture);
+      if (!fs.existsSync(file)) throw new Error(`Mock fixture not found: ${mock.fixture}`);
+      body = fs.readFileSync(file);
+      if (!contentType && file.endsWith('.json')) contentType = 'application/json';
+    } else if (mock.body !== undefined && typeof mock.body !== 'string') {
+      body = JSON.stringify(mock.body);
+      contentType = contentType || 'application/json';
+    } else {
+      body = mock.body;
+    }
+    return { status: mock.status ?? 200, headers: mock.headers, contentType, body };
+  }
+}
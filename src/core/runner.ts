@@ -0,0 +1,216 @@
+import { Browser } from 'playwright';
+import * as path from 'path';
+import * as fs from 'fs';
+import { Scenario, TestReport, SuiteReport, BrowserName } from '../types';
+import { Pilot, PilotOptions } from './pilot';
+import { createReporters, resolveReportPath, collectStepCases } from './reporters';
+import { getBrowserType } from '../utils/browsers';
+import { expandMatrix } from '../utils/emulation';
+import { harPathFor } from '../utils/har';
+
+export interface RunnerOptions extends Omit<PilotOptions, 'browser' | 'browserName' | 'variant' | 'outputDir' | 'reportFile'> {
+  outputDir?: string;
+  reportFile?: string;
+  workers?: number;
+  browsers?: BrowserName[];   // Run every scenario in each engine (default: scenario config.browser, then chromium)
+}
+
+interface RunJob {
+  entry: ScenarioEntry;
+  index: number;
+  browser: BrowserName;
+  multiEngine: boolean;
+  scenario: Scenario;   // Entry scenario with the matrix entry merged into its config
+  variant?: string;
+}
+
+export interface ScenarioEntry {
+  file: string;
+  scenario: Scenario;
+}
+
+/**
+ * Runs many scenarios against shared browsers (one per engine). Each
+ * scenario gets its own BrowserContext (through Pilot) and output
+ * sub-directory; up to `workers` scenarios run at the same time.
+ */
+export class ScenarioRunner {
+  private outputDir: string;
+  private jobCount = 0;
+
+  constructor(private options: RunnerOptions = {}) {
+    this.outputDir = options.outputDir || path.join(process.cwd(), 'fe-pilot-results');
+    if (!fs.existsSync(this.outputDir)) fs.mkdirSync(this.outputDir, { recursive: true });
+  }
+
+  /**
+   * Keep scenarios that have at least one of `tags` (if given) and whose
+   * name matches `grep` (case-insensitive regex, if given)
+   */
+  static filter<T extends { scenario: Pick<Scenario, 'name' | 'tags'> }>(entries: T[], tags?: string[], grep?: string): T[] {
+    const pattern = grep ? new RegExp(grep, 'i') : undefined;
+    return entries.filter(({ scenario }) => {
+      if (tags?.length && !scenario.tags?.some(t => tags.includes(t))) return false;
+      if (pattern && !pattern.test(scenario.name)) return false;
+      return true;
+    });
+  }
+
+  async run(entries: ScenarioEntry[]): Promise<SuiteReport> {
+    const startTime = Date.now();
+    const jobs: RunJob[] = entries.flatMap((entry, index) => {
+      const engines = this.options.browsers?.length ? this.options.browsers : [entry.scenario.config?.browser || 'chromium'];
+      const variants = expandMatrix(entry.scenario.config || {});
+      return variants.flatMap(({ label, config }) => engines.map(browser => ({
+        entry, index, browser, multiEngine: engines.length > 1, scenario: { ...entry.scenario, config }, variant: label,
+      })));
+    });
+    this.jobCount = jobs.length;
+    const workers = Math.max(1, Math.min(this.options.workers || 1, jobs.length));
+    const reports: TestReport[] = new Array(jobs.length);
+
+    console.log(`\n🗂️  Running ${entries.length} scenario(s)${jobs.length > entries.length ? ` (${jobs.length} runs across browsers/devices)` : ''} with ${workers} worker(s)\n`);
+
+    // Engines are launched on first use and shared by every job that needs them (headed and headless apart)
+    const browsers = new Map<string, Promise<Browser>>();
+    const getBrowser = (name: BrowserName, headless: boolean) => {
+      const key = `${name}:${headless}`;
+      if (!browsers.has(key)) browsers.set(key, getBrowserType(name).launch({ headless }));
+      return browsers.get(key)!;
+    };
+
+    try {
+      let next = 0;
+      const worker = async () => {
+        while (next < jobs.length) {
+          const i = next++;
+          reports[i] = await this.runOne(jobs[i], getBrowser);
+        }
+      };
+      await Promise.all(Array.from({ length: workers }, () => worker()));
+    } finally {
+      for (const pending of browsers.values()) {
+        try { await (await pending).close(); } catch {}
+      }
+    }
+
+    const suite = this.summarize(reports, startTime, Date.now());
+    this.saveSuiteReport(suite);
+    this.printSummary(suite);
+    if (jobs.some(j => j.multiEngine)) this.printBrowserComparison(suite.reports);
+    return suite;
+  }
+
+  private async runOne(job: RunJob, getBrowser: (name: BrowserName, headless: boolean) => Promise<Browser>): Promise<TestReport> {
+    const { entry, index } = job;
+    const slug = [path.basename(entry.file).replace(/\.ya?ml$/i, ''), job.variant, job.multiEngine ? job.browser : undefined]
+      .filter(Boolean).join('-').replace(/[^\w.-]+/g, '-');
+    const runId = `${String(index + 1).padStart(2, '0')}-${slug}`;
+    const startTime = Date.now();
+    try {
+      const pilot = new Pilot({
+        ...this.options,
+        browser: await getBrowser(job.browser, this.options.headless !== false && job.scenario.config?.headless !== false),
+        browserName: job.browser,
+        variant: job.variant,
+        outputDir: path.join(this.outputDir, runId),
+        // One HAR per run when several scenarios/engines/devices share the flag
+        recordHar: this.options.recordHar && (this.jobCount > 1 ? harPathFor(this.options.recordHar, runId) : this.options.recordHar),
+        replayHar: this.options.replayHar && (this.jobCount > 1 ? harPathFor(this.options.replayHar, runId) : this.options.replayHar),
+        reportFile: undefined,
+      });
+      const report = await pilot.execute(job.scenario);
+      return { ...report, file: entry.file };
+    } catch (e) {
+      // Setup failures (browser launch, context creation) still need to show up in the aggregate
+      const error = (e as Error).message;
+      console.log(`\n❌ Scenario "${entry.scenario.name}" (${[job.browser, job.variant].filter(Boolean).join(', ')}) could not run: ${error}`);
+      const endTime = Date.now();
+      return {
+        scenario: entry.scenario.name, browser: job.browser, variant: job.variant, status: 'failed', duration: endTime - startTime, startTime, endTime, file: entry.file,
+        steps: [{ step: 0, action: { action: 'navigate', url: entry.scenario.url, description: 'Scenario setup' }, status: 'failed', observations: {} as any, duration: endTime - startTime, error }],
+        summary: { totalSteps: 1, passed: 0, failed: 1, warnings: 0, skipped: 0, bugsFound: 0, bugsFixed: 0, screenshots: [], consoleErrors: 0, networkErrors: 0, validationErrors: 0, assertionsPassed: 0, assertionsFailed: 0, retriedSteps: 0 },
+      };
+    }
+  }
+
+  private summarize(reports: TestReport[], startTime: number, endTime: number): SuiteReport {
+    const sum = (fn: (r: TestReport) => number) => reports.reduce((t, r) => t + fn(r), 0);
+    const failed = reports.filter(r => r.status === 'failed').length;
+    const warnings = reports.filter(r => r.status === 'warning').length;
+    return {
+      status: failed ? 'failed' : warnings ? 'warning' : 'passed',
+      duration: endTime - startTime, startTime, endTime, reports,
+      summary: {
+        totalScenarios: reports.length,
+        passed: reports.filter(r => r.status === 'passed').length,
+        failed, warnings,
+        totalSteps: sum(r => r.summary.totalSteps),
+        stepsPassed: sum(r => r.summary.passed),
+        stepsFailed: sum(r => r.summary.failed),
+        stepsSkipped: sum(r => r.summary.skipped),
+        assertionsPassed: sum(r => r.summary.assertionsPassed),
+        assertionsFailed: sum(r => r.summary.assertionsFailed),
+      },
+    };
+  }
+
+  private saveSuiteReport(suite: SuiteReport): void {
+    const reporters = createReporters(this.options.reporters || ['json', 'html']);
+    const timestamp = Date.now();
+    for (const reporter of reporters) {
+      const filepath = this.options.reportFile
+        ? resolveReportPath(reporter, { outputDir: this.outputDir, reportFile: this.options.reportFile, reporterCount: reporters.length, timestamp })
+        : path.join(this.outputDir, `summary-${timestamp}${reporter.extension}`);
+      fs.mkdirSync(path.dirname(filepath), { recursive: true });
+      // The JSON summary keeps the aggregate counts; other formats list every scenario
+      const content = reporter.name === 'json' ? JSON.stringify(suite, null, 2) : reporter.render(suite.reports);
+      fs.writeFileSync(filepath, content);
+      console.log(`📄 Summary saved (${reporter.name}): ${filepath}`);
+    }
+  }
+
+  private printSummary(suite: SuiteReport): void {
+    const s = suite.summary;
+    console.log(`\n${'='.repeat(80)}\n📊 SUITE SUMMARY\n`);
+    suite.reports.forEach(r => {
+      const icon = r.status === 'passed' ? '✅' : r.status === 'failed' ? '❌' : '⚠️ ';
+      console.log(`${icon} ${r.scenario}${r.browser ? ` [${r.browser}]` : ''}${r.variant ? ` [${r.variant}]` : ''} (${(r.duration / 1000).toFixed(1)}s) - ${r.summary.passed}/${r.summary.totalSteps} steps passed`);
+    });
+    console.log(`\nScenarios: ${s.totalScenarios} | ✅ ${s.passed} | ❌ ${s.failed} | ⚠️  ${s.warnings}`);
+    console.log(`Steps: ${s.totalSteps} | ✅ ${s.stepsPassed} | ❌ ${s.stepsFailed} | ⏭️  ${s.stepsSkipped}`);
+    if (s.assertionsPassed || s.assertionsFailed) console.log(`📋 Assertions: ✅ ${s.assertionsPassed} ❌ ${s.assertionsFailed}`);
+    console.log(`Duration: ${(suite.duration / 1000).toFixed(2)}s\n${'='.repeat(80)}\n`);
+  }
+
+  /**
+   * Per-step status of each scenario across engines, side by side
+   */
+  private printBrowserComparison(reports: TestReport[]): void {
+    const byScenario = new Map<string, TestReport[]>();
+    reports.forEach(r => {
+      const key = `${r.file || r.scenario}|${r.variant || ''}`;
+      byScenario.set(key, [...(byScenario.get(key) || []), r]);
+    });
+    const icon = (status?: string) => status === 'success' || status === 'passed' ? '✅' : status === 'failed' ? '❌'
+      : status === 'warning' ? '⚠️ ' : status === 'skipped' ? '⏭️ ' : ' - ';
+
+    console.log(`🌐 BROWSER COMPARISON\n`);
+    for (const group of byScenario.values()) {
+      if (group.length < 2) continue;
+      const columns = group.map(r => r.browser || 'chromium');
+      const cases = group.map(r => new Map(collectStepCases(r.steps).map(c => [c.label, c])));
+      const rows = new Map<string, string>();
+      cases.forEach(m => m.forEach((c, label) => { if (!rows.has(label)) rows.set(label, c.name); }));
+      const fit = (name: string) => (name.length > 60 ? name.slice(0, 57) + '...' : name).padEnd(60);
+
+      console.log(`${group[0].scenario}${group[0].variant ? ` [${group[0].variant}]` : ''}`);
+      console.log(`  ${fit('')}  ${columns.map(c => c.padEnd(9)).join(' ')}`);
+      rows.forEach((name, label) => {
+        console.log(`  ${fit(name)}  ${cases.map(m => icon(m.get(label)?.result.status).padEnd(9)).join(' ')}`);
+      });
+      console.log(`  ${fit('Overall')}  ${group.map(r => icon(r.status).padEnd(9)).join(' ')}\n`);
+    }
+    console.log(`${'='.repeat(80)}\n`);
+  }
+}
@@ -0,0 +1,167 @@
+import { Page } from 'playwright';
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+import * as path from 'path';
+import * as fs from 'fs';
+import { Action, AssertionResult } from '../types';
+import { takeScreenshot, screenshotFileName } from '../utils/screenshot';
+
+export interface VisualOptions {
+  baselineDir: string;   // Root for baselines; images go to <baselineDir>/<key>/<name>.png
+  outputDir: string;     // Actual/diff images and manifest.json for `baseline update`
+  key: string;           // Scenario/browser/device sub-path, e.g. "login/chromium-iPhone-13"
+  threshold?: number;    // Default max fraction of differing pixels
+  createMissing?: boolean; // Store a missing baseline and pass (default true); false fails instead, e.g. in CI
+}
+
+// Pending baseline changes, consumed by `fe-pilot baseline update`
+export interface VisualManifestEntry {
+  name: string;
+  baseline: string;
+  actual: string;
+  diff?: string;
+  diffRatio?: number;
+  timestamp: number;
+}
+
+export const VISUAL_MANIFEST = 'manifest.json';
+
+/**
+ * Screenshot baselines for screenshot_matches. The first run stores the
+ * baseline (unless createMissing is off); later runs diff against it and
+ * keep actual + diff images for failures, listed in the manifest so they
+ * can be accepted later.
+ */
+export class VisualComparator {
+  constructor(private page: Page, private options: VisualOptions) {}
+
+  /**
+   * Compare a fresh screenshot (page, or `selector`) - or `existing`, a
+   * named screenshot taken earlier in the run - with the baseline
+   */
+  async compare(action: Action, existing?: string): Promise<Pick<AssertionResult, 'passed' | 'message' | 'actual' | 'expected' | 'images'>> {
+    const name = this.imageName(action);
+    const baseline = path.join(this.options.baselineDir, this.options.key, `${name}.png`);
+    const threshold = action.threshold ?? this.options.threshold ?? 0;
+    const shot = existing
+      ? fs.readFileSync(existing)
+      : await takeScreenshot(this.page, { selector: action.selector, fullPage: action.full_page, mask: action.mask, timeout: action.timeout, stable: true });
+
+    if (!fs.existsSync(baseline) && this.options.createMissing === false) {
+      const actualFile = path.join(this.options.outputDir, `${name}.actual.png`);
+      this.writeImage(actualFile, shot);
+      this.addPending({ name, baseline, actual: actualFile, timestamp: Date.now() });
+      return {
+        passed: false,
+        message: `Baseline missing: ${baseline} (not created in CI - run locally or accept with \`fe-pilot baseline update\`)`,
+        images: { baseline, actual: actualFile },
+      };
+    }
+    if (!fs.existsSync(baseline)) {
+      fs.mkdirSync(path.dirname(baseline), { recursive: true });
+      fs.writeFileSync(baseline, shot);
+      this.resolvePending(baseline);
+      return { passed: true, message: `Baseline created: ${baseline}`, images: { baseline } };
+    }
+
+    const expected = PNG.sync.read(fs.readFileSync(baseline));
+    const actual = PNG.sync.read(shot);
+    const actualFile = path.join(this.options.outputDir, `${name}.actual.png`);
+
+    if (expected.width !== actual.width || expected.height !== actual.height) {
+      this.writeImage(actualFile, shot);
+      this.addPending({ name, baseline, actual: actualFile, timestamp: Date.now() });
+      return {
+        passed: false,
+        message: `Size differs from baseline: ${actual.width}x${actual.height} vs ${expected.width}x${expected.height}`,
+        images: { baseline, actual: actualFile },
+      };
+    }
+
+    const { width, height } = expected;
+    const diff = new PNG({ width, height });
+    const changed = pixelmatch(expected.data, actual.data, diff.data, width, height, { threshold: action.pixel_threshold ?? 0.1 });
+    const ratio = changed / (width * height);
+    const summary = `${changed} px differ (${(ratio * 100).toFixed(3)}%, allowed ${(threshold * 100).toFixed(3)}%)`;
+
+    if (ratio <= threshold) {
+      this.resolvePending(baseline);
+      return { passed: true, message: `Matches baseline "${name}": ${summary}`, images: { baseline } };
+    }
+
+    const diffFile = path.join(this.options.outputDir, `${name}.diff.png`);
+    this.writeImage(actualFile, shot);
+    this.writeImage(diffFile, PNG.sync.write(diff));
+    this.addPending({ name, baseline, actual: actualFile, diff: diffFile, diffRatio: ratio, timestamp: Date.now() });
+    return {
+      passed: false,
+      message: `Differs from baseline "${name}": ${summary}`,
+      expected: threshold,
+      actual: ratio,
+      images: { baseline, actual: actualFile, diff: diffFile },
+    };
+  }
+
+  private imageName(action: Action): string {
+    const raw = action.name || action.screenshot || action.description;
+    if (!raw) throw new Error('screenshot_matches needs name (or description)');
+    return screenshotFileName(raw);
+  }
+
+  private writeImage(file: string, data: Buffer): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, data);
+  }
+
+  private manifestPath(): string {
+    return path.join(this.options.outputDir, VISUAL_MANIFEST);
+  }
+
+  private readManifest(): VisualManifestEntry[] {
+    try { return JSON.parse(fs.readFileSync(this.manifestPath(), 'utf-8')); } catch { return []; }
+  }
+
+  private writeManifest(entries: VisualManifestEntry[]): void {
+    if (!entries.length) { fs.rmSync(this.manifestPath(), { force: true }); return; }
+    fs.mkdirSync(this.options.outputDir, { recursive: true });
+    fs.writeFileSync(this.manifestPath(), JSON.stringify(entries, null, 2));
+  }
+
+  private addPending(entry: VisualManifestEntry): void {
+    this.writeManifest([...this.readManifest().filter(e => e.baseline !== entry.baseline), entry]);
+  }
+
+  private resolvePending(baseline: string): void {
+    const entries = this.readManifest();
+    if (entries.some(e => e.baseline === baseline)) this.writeManifest(entries.filter(e => e.baseline !== baseline));
+  }
+}
+
+/**
+ * Accept pending changes: copy each manifest entry's actual image over its
+ * baseline. Walks `resultsDir` for visual manifests; `grep` filters by name.
+ */
+export function acceptBaselines(resultsDir: string, grep?: string): VisualManifestEntry[] {
+  const pattern = grep ? new RegExp(grep, 'i') : undefined;
+  const accepted: VisualManifestEntry[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) { walk(full); continue; }
+      if (entry.name !== VISUAL_MANIFEST || path.basename(dir) !== 'visual') continue;
+
+      const pending: VisualManifestEntry[] = JSON.parse(fs.readFileSync(full, 'utf-8'));
+      const remaining: VisualManifestEntry[] = [];
+      for (const item of pending) {
+        if ((pattern && !pattern.test(item.name)) || !fs.existsSync(item.actual)) { remaining.push(item); continue; }
+        fs.mkdirSync(path.dirname(item.baseline), { recursive: true });
+        fs.copyFileSync(item.actual, item.baseline);
+        accepted.push(item);
+      }
+      if (remaining.length) fs.writeFileSync(full, JSON.stringify(remaining, null, 2));
+      else fs.rmSync(full);
+    }
+  };
+  if (fs.existsSync(resultsDir)) walk(resultsDir);
+  return accepted;
+}
@@ -4,9 +4,20 @@ import { Command } from 'commander';
 import * as path from 'path';
 import * as fs from 'fs';
 import { Pilot } from './core/pilot';
+import { ScenarioRunner, ScenarioEntry } from './core/runner';
 import { Explorer } from './core/explorer';
+import { Recorder } from './core/recorder';
+import { Crawler } from './core/crawler';
+import { AccessibilityAuditor, SEVERITIES, WCAG_LEVELS } from './core/accessibility';
 import { ScenarioParser } from './utils/scenario-parser';
-import { Scenario } from './types';
+import { createReporters, AVAILABLE_REPORTERS } from './core/reporters';
+import { parseBrowserList, getBrowserType } from './utils/browsers';
+import { parseArtifactMode } from './utils/artifacts';
+import { SessionExporter } from './utils/session-exporter';
+import { acceptBaselines } from './core/visual';
+import { AVAILABLE_TRANSPORTS } from './core/ai-transports';
+import { AVAILABLE_POLICIES } from './core/policies';
+import { Scenario, Observation, WcagLevel } from './types';
 import { ExplorationGoal } from './types/ai';
 
 const program = new Command();
@@ -16,62 +27,148 @@ program
   .description('AI-driven frontend testing and debugging tool')
   .version('1.0.0');
 
-// Run command - execute a scenario
+/**
+ * Load, substitute and validate one scenario file for `run`
+ */
+function loadScenario(file: string, credentials?: { username: string; password: string }): Scenario {
+  let scenario = ScenarioParser.loadFromFile(file);
+
+  // Override credentials if provided
+  if (credentials) scenario.credentials = credentials;
+
+  // Substitute variables
+  scenario = ScenarioParser.substituteVariables(scenario);
+
+  // Validate scenario
+  const validation = ScenarioParser.validate(scenario);
+  if (!validation.valid) {
+    throw new Error(`Scenario validation failed (${file}):\n${validation.errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+  return scenario;
+}
+
+// Run command - execute a scenario, or every scenario in a directory
 program
   .command('run <scenario>')
-  .description('Run a test scenario from a YAML file')
+  .description('Run a test scenario from a YAML file, or all scenarios in a directory')
   .option('--headless', 'Run in headless mode (default: true)', true)
   .option('--headed', 'Run in headed mode (show browser)')
   .option('-o, --output <dir>', 'Output directory for results')
   .option('--ai-checkpoints', 'Enable AI checkpoints for analysis')
   .option('--credentials <user:pass>', 'Override credentials (format: username:password)')
+  .option('--reporter <formats>', `Report formats, comma-separated (${AVAILABLE_REPORTERS.join('|')})`, 'json,html')
+  .option('--report-file <path>', 'Report output path (extension is replaced per format when several reporters are used)')
+  .option('--workers <number>', 'Scenarios to run in parallel when running a directory', '1')
+  .option('--tags <tags>', 'Only run scenarios with at least one of these tags (comma-separated)')
+  .option('--grep <pattern>', 'Only run scenarios whose name matches this pattern')
+  .option('--browser <engine>', 'Browser engine: chromium|firefox|webkit|all (comma-separated for several)')
+  .option('--record-har <file>', 'Record network traffic to a HAR file (one file per run when several run)')
+  .option('--replay-har <file>', 'Run offline against a recorded HAR file (unrecorded requests are aborted)')
   .action(async (scenarioPath: string, options) => {
     try {
       console.log('🤖 fe-pilot - AI-driven frontend testing\n');
-      console.log(`📂 Loading scenario: ${scenarioPath}\n`);
+      if (options.recordHar && options.replayHar) {
+        console.error('❌ Use either --record-har or --replay-har, not both');
+        process.exit(1);
+      }
 
-      // Load scenario
-      let scenario = ScenarioParser.loadFromFile(scenarioPath);
+      const reporters = String(options.reporter).split(',').map((r: string) => r.trim()).filter(Boolean);
+      createReporters(reporters); // fail fast on unknown formats
+      const browsers = parseBrowserList(options.browser);
 
-      // Override credentials if provided
+      let credentials;
       if (options.credentials) {
         const [username, password] = options.credentials.split(':');
         if (!username || !password) {
           console.error('❌ Invalid credentials format. Use: username:password');
           process.exit(1);
         }
-        scenario.credentials = { username, password };
+        credentials = { username, password };
       }
 
-      // Substitute variables
-      scenario = ScenarioParser.substituteVariables(scenario);
-
-      // Validate scenario
-      const validation = ScenarioParser.validate(scenario);
-      if (!validation.valid) {
-        console.error('❌ Scenario validation failed:');
-        validation.errors.forEach((error) => console.error(`  - ${error}`));
+      const onCheckpoint = options.aiCheckpoints
+        ? async (observation: Observation) => {
+            // For Phase 1, just log that checkpoint was reached
+            // Phase 2+ will integrate with Claude Code
+            console.log(`\n🤖 AI Checkpoint reached (Step ${observation.stepNumber})`);
+            if (observation.newConsoleLogs.length > 0) {
+              console.log(`   New console logs: ${observation.newConsoleLogs.length}`);
+            }
+            if (observation.newNetworkRequests.length > 0) {
+              console.log(`   New network requests: ${observation.newNetworkRequests.length}`);
+            }
+          }
+        : undefined;
+
+      const isDirectory = fs.statSync(scenarioPath).isDirectory();
+      console.log(`📂 Loading ${isDirectory ? 'scenarios from' : 'scenario'}: ${scenarioPath}\n`);
+      const files = isDirectory ? ScenarioParser.findScenarioFiles(scenarioPath) : [path.resolve(scenarioPath)];
+
+      // Filter on name/tags first, so a broken file only matters when it is selected
+      const tags = options.tags ? String(options.tags).split(',').map((t: string) => t.trim()).filter(Boolean) : undefined;
+      const filtering = !!(tags?.length || options.grep);
+      const headers: Array<{ file: string; scenario: Pick<Scenario, 'name' | 'tags'> }> = [];
+      const loadErrors: string[] = [];
+      for (const file of files) {
+        try {
+          headers.push({ file, scenario: ScenarioParser.readHeader(file) });
+        } catch (e) {
+          if (filtering) console.log(`⚠️  Skipped ${file}: could not read its name/tags (${(e as Error).message.split('\n')[0]})`);
+          else headers.push({ file, scenario: { name: '', tags: [] } });
+        }
+      }
+      const selectedFiles = ScenarioRunner.filter(headers, tags, options.grep).map(h => h.file);
+      if (selectedFiles.length === 0) {
+        console.error(`❌ No scenarios matched (${files.length} found)`);
         process.exit(1);
       }
 
+      // Invalid scenarios are reported and fail the run; the valid ones still run
+      const entries: ScenarioEntry[] = [];
+      for (const file of selectedFiles) {
+        try {
+          entries.push({ file, scenario: loadScenario(file, credentials) });
+        } catch (e) {
+          loadErrors.push((e as Error).message);
+          console.error(`❌ ${(e as Error).message}\n`);
+        }
+      }
+      if (!entries.length) process.exit(1);
+
+      // Directories, multi-browser runs and device matrices go through the runner (shared browsers, aggregate summary)
+      if (isDirectory || browsers.length > 1 || entries[0].scenario.config?.matrix?.length) {
+        const runner = new ScenarioRunner({
+          headless: options.headed ? false : options.headless,
+          outputDir: options.output,
+          reporters,
+          reportFile: options.reportFile,
+          workers: parseInt(options.workers),
+          browsers: browsers.length ? browsers : undefined,
+          recordHar: options.recordHar,
+          replayHar: options.replayHar,
+          aiCheckpoints: options.aiCheckpoints,
+          onCheckpoint,
+        });
+        const suite = await runner.run(entries);
+        if (loadErrors.length) console.error(`❌ ${loadErrors.length} scenario file(s) could not be loaded (see above)`);
+
+        // Exit with appropriate code
+        process.exit(suite.status === 'failed' || loadErrors.length ? 1 : 0);
+      }
+
+      const scenario = entries[0].scenario;
+
       // Create pilot
       const pilot = new Pilot({
         headless: options.headed ? false : options.headless,
         outputDir: options.output,
+        reporters,
+        reportFile: options.reportFile,
+        browserName: browsers[0],
+        recordHar: options.recordHar,
+        replayHar: options.replayHar,
         aiCheckpoints: options.aiCheckpoints,
-        onCheckpoint: options.aiCheckpoints
-          ? async (observation) => {
-              // For Phase 1, just log that checkpoint was reached
-              // Phase 2+ will integrate with Claude Code
-              console.log(`\n🤖 AI Checkpoint reached (Step ${observation.stepNumber})`);
-              if (observation.newConsoleLogs.length > 0) {
-                console.log(`   New console logs: ${observation.newConsoleLogs.length}`);
-              }
-              if (observation.newNetworkRequests.length > 0) {
-                console.log(`   New network requests: ${observation.newNetworkRequests.length}`);
-              }
-            }
-          : undefined,
+        onCheckpoint,
       });
 
       // Execute scenario
@@ -155,19 +252,57 @@ program
 
 // Explore command - autonomous AI-driven exploration
 program
-  .command('explore <url>')
+  .command('explore [url]')
   .description('Autonomous AI-driven exploration (requires AI interaction)')
-  .requiredOption('--goal <objective>', 'What to achieve (e.g., "test login functionality")')
+  .option('--goal <objective>', 'What to achieve (e.g., "test login functionality")')
   .option('--credentials <user:pass>', 'Credentials (format: username:password)')
   .option('--auto-fix', 'Enable automatic bug fixing')
-  .option('--max-steps <number>', 'Maximum steps before stopping', '50')
+  .option('--max-steps <number>', 'Maximum steps before stopping (default: 50, unlimited with --policy)')
   .option('--checkpoint-interval <number>', 'Steps between AI checkpoints', '5')
   .option('--headless', 'Run in headless mode (default: true)', true)
   .option('--headed', 'Run in headed mode (show browser)')
   .option('--debug', 'Enable debug logging (shows observation paths, wait times, step details)')
   .option('-o, --output <dir>', 'Output directory for session')
-  .action(async (url: string, options) => {
+  .option('--browser <engine>', 'Browser engine: chromium|firefox|webkit', 'chromium')
+  .option('--record-har <file>', 'Record the session\'s network traffic to a HAR file')
+  .option('--replay-har <file>', 'Explore offline against a recorded HAR file')
+  .option('--trace [mode]', 'Record a Playwright trace into the session directory: on|retain-on-failure')
+  .option('--resume <sessionDir>', 'Continue a saved session (url, goal and steps come from its session.json)')
+  .option('--resume-mode <mode>', 'How to restore the page state: replay (re-run actions) | storage (saved cookies/localStorage + last URL)', 'replay')
+  .option('--ai-transport <name>', `How to exchange observations/actions with the AI: ${AVAILABLE_TRANSPORTS.join('|')}`, 'file')
+  .option('--ai-port <port>', 'Port for --ai-transport http', '4580')
+  .option('--policy <name>', `Explore without an AI using a built-in policy: ${AVAILABLE_POLICIES.join('|')}`)
+  .option('--avoid <pattern>', 'Regex of button/link labels the policy must not click (default: delete/logout/pay...)')
+  .action(async (url: string | undefined, options) => {
     try {
+      const browsers = parseBrowserList(options.browser);
+      const trace = parseArtifactMode(options.trace, '--trace');
+      if (browsers.length !== 1) {
+        console.error('❌ explore runs in a single browser. Use --browser chromium|firefox|webkit');
+        process.exit(1);
+      }
+      if (options.recordHar && options.replayHar) {
+        console.error('❌ Use either --record-har or --replay-har, not both');
+        process.exit(1);
+      }
+      if (options.resume && !['replay', 'storage'].includes(options.resumeMode)) {
+        console.error('❌ --resume-mode must be replay or storage');
+        process.exit(1);
+      }
+      if (!AVAILABLE_TRANSPORTS.includes(options.aiTransport)) {
+        console.error(`❌ --ai-transport must be one of ${AVAILABLE_TRANSPORTS.join('|')}`);
+        process.exit(1);
+      }
+      if (options.policy && !AVAILABLE_POLICIES.includes(options.policy)) {
+        console.error(`❌ --policy must be one of ${AVAILABLE_POLICIES.join('|')}`);
+        process.exit(1);
+      }
+      if (options.policy && !options.goal && url) options.goal = `Crawl ${url} (${options.policy} policy)`;
+      if (!options.resume && (!url || !options.goal)) {
+        console.error('❌ explore needs <url> and --goal (or --resume <sessionDir>)');
+        process.exit(1);
+      }
+
       // Parse credentials
       let credentials;
       if (options.credentials) {
@@ -183,7 +318,7 @@ program
       const goal: ExplorationGoal = {
         objective: options.goal,
         credentials,
-        maxSteps: parseInt(options.maxSteps),
+        maxSteps: options.maxSteps ? parseInt(options.maxSteps) : undefined,
         autoFix: options.autoFix || false,
         checkpointInterval: parseInt(options.checkpointInterval),
       };
@@ -193,13 +328,200 @@ program
         headless: options.headed ? false : options.headless,
         outputDir: options.output,
         debug: options.debug || false,
+        browser: browsers[0],
+        recordHar: options.recordHar,
+        replayHar: options.replayHar,
+        trace,
+        aiTransport: options.aiTransport,
+        aiPort: parseInt(options.aiPort),
+        policy: options.policy,
+        avoid: options.avoid ? new RegExp(options.avoid, 'i') : undefined,
       });
 
-      // Start exploration
-      const session = await explorer.explore(url, goal);
+      // Start (or resume) exploration
+      const session = options.resume
+        ? await explorer.resume(path.resolve(options.resume), options.resumeMode)
+        : await explorer.explore(url!, goal);
 
-      // Exit with appropriate code
-      process.exit(session.status === 'completed' ? 0 : 1);
+      // Exit with appropriate code: unfinished, or bugs found and not fixed
+      process.exit(session.status === 'completed' && session.bugsFound <= session.bugsFixed ? 0 : 1);
+    } catch (error) {
+      console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Export-session command - turn an exploration into a scenario for `fe-pilot run`
+program
+  .command('export-session <sessionDir>')
+  .description('Convert an exploration session into a replayable scenario YAML')
+  .option('-o, --output <file>', 'Scenario file to write (default: <sessionDir>/scenario.yaml)')
+  .option('--name <name>', 'Scenario name (default: the exploration goal)')
+  .option('--tags <tags>', 'Comma-separated tags', 'exported')
+  .option('--no-assert-final', 'Do not add assertions for the final page state')
+  .action((sessionDir: string, options) => {
+    try {
+      const dir = path.resolve(sessionDir);
+      const session = SessionExporter.loadSession(dir);
+      if (session.status !== 'completed') {
+        console.log(`⚠️  Session status is "${session.status}" - the exported steps stop where the exploration did`);
+      }
+      const scenario = SessionExporter.toScenario(session, {
+        name: options.name,
+        tags: String(options.tags).split(',').map((t: string) => t.trim()).filter(Boolean),
+        assertFinalState: options.assertFinal,
+      });
+      const validation = ScenarioParser.validate(scenario);
+      if (!validation.valid) {
+        console.log(`⚠️  Exported scenario needs edits before it runs:`);
+        validation.errors.forEach(e => console.log(`   - ${e}`));
+      }
+
+      const output = path.resolve(options.output || path.join(dir, 'scenario.yaml'));
+      fs.mkdirSync(path.dirname(output), { recursive: true });
+      fs.writeFileSync(output, ScenarioParser.toYaml(scenario, `Exported by fe-pilot export-session from ${dir}`));
+      console.log(`✅ Exported ${scenario.steps.length} steps to ${output}`);
+      console.log(`   Run with: fe-pilot run ${path.relative(process.cwd(), output) || output}`);
+    } catch (error) {
+      console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Record command - manual interaction in a headed browser becomes a scenario
+program
+  .command('record <url>')
+  .description('Record clicks, typing, selects and navigation in a headed browser as a scenario YAML')
+  .option('-o, --output <file>', 'Scenario file to write', 'recorded-scenario.yaml')
+  .option('--name <name>', 'Scenario name')
+  .option('--browser <engine>', 'Browser engine: chromium|firefox|webkit', 'chromium')
+  .option('--viewport <WxH>', 'Viewport size, e.g. 1280x720')
+  .action(async (url: string, options) => {
+    try {
+      const browsers = parseBrowserList(options.browser);
+      if (browsers.length !== 1) {
+        console.error('❌ record runs in a single browser. Use --browser chromium|firefox|webkit');
+        process.exit(1);
+      }
+      let viewport;
+      if (options.viewport) {
+        const match = String(options.viewport).match(/^(\d+)x(\d+)$/i);
+        if (!match) {
+          console.error('❌ Invalid --viewport. Use WIDTHxHEIGHT, e.g. 1280x720');
+          process.exit(1);
+        }
+        viewport = { width: Number(match[1]), height: Number(match[2]) };
+      }
+
+      const recorder = new Recorder({ output: options.output, name: options.name, browser: browsers[0], viewport });
+      await recorder.record(url);
+      console.log(`   Run with: fe-pilot run ${options.output}`);
+      process.exit(0);
+    } catch (error) {
+      console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Crawl command - site map, broken links and per-page health
+program
+  .command('crawl <url>')
+  .description('Crawl a site via a[href]: site map, broken links, console errors and load times per page')
+  .option('--depth <number>', 'Link hops from the start URL', '3')
+  .option('--same-origin', 'Only follow links on the start URL\'s origin')
+  .option('--include <patterns>', 'Only crawl URLs matching one of these regexes (comma-separated)')
+  .option('--exclude <patterns>', 'Never crawl URLs matching these regexes (comma-separated)')
+  .option('--max-pages <number>', 'Maximum pages to visit', '50')
+  .option('--check-external', 'With --same-origin: still request off-origin links to find broken ones')
+  .option('--browser <engine>', 'Browser engine: chromium|firefox|webkit', 'chromium')
+  .option('--headed', 'Run in headed mode (show browser)')
+  .option('-o, --output <dir>', 'Output directory for the crawl report', 'fe-pilot-crawl')
+  .action(async (url: string, options) => {
+    try {
+      const browsers = parseBrowserList(options.browser);
+      if (browsers.length !== 1) {
+        console.error('❌ crawl runs in a single browser. Use --browser chromium|firefox|webkit');
+        process.exit(1);
+      }
+      const patterns = (value?: string) => (value ? value.split(',').map((p: string) => new RegExp(p.trim(), 'i')) : undefined);
+
+      const crawler = new Crawler({
+        depth: parseInt(options.depth),
+        sameOrigin: options.sameOrigin || false,
+        include: patterns(options.include),
+        exclude: patterns(options.exclude),
+        maxPages: parseInt(options.maxPages),
+        checkExternal: options.checkExternal || false,
+        browser: browsers[0],
+        headless: !options.headed,
+        outputDir: options.output,
+      });
+      const report = await crawler.crawl(url);
+      Crawler.printSummary(report);
+      const files = Crawler.save(report, options.output);
+      console.log(`📄 Report: ${files.json}`);
+      console.log(`🗺️  Site map: ${files.dot} (render with: dot -Tsvg ${files.dot} -o sitemap.svg)`);
+
+      process.exit(report.brokenLinks.length ? 1 : 0);
+    } catch (error) {
+      console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Accessibility command - WCAG checks on one page
+program
+  .command('a11y <url>')
+  .description('Audit a page for accessibility: alt text, headings, landmarks, ids, accessible names, ARIA roles, contrast')
+  .option('--level <level>', 'WCAG level: A|AA|AAA', 'AA')
+  .option('--selector <css>', 'Only audit inside this element')
+  .option('--ignore-rules <rules>', 'Rule ids to skip (comma-separated)')
+  .option('--fail-on <severity>', 'Exit 1 on issues of this severity or worse: critical|high|medium|low', 'high')
+  .option('--browser <engine>', 'Browser engine: chromium|firefox|webkit', 'chromium')
+  .option('--headed', 'Run in headed mode (show browser)')
+  .option('-o, --output <file>', 'Save the report as JSON')
+  .action(async (url: string, options) => {
+    try {
+      const browsers = parseBrowserList(options.browser);
+      if (browsers.length !== 1) {
+        console.error('❌ a11y runs in a single browser. Use --browser chromium|firefox|webkit');
+        process.exit(1);
+      }
+      const level = String(options.level).toUpperCase() as WcagLevel;
+      if (!WCAG_LEVELS.includes(level)) {
+        console.error(`❌ --level must be one of: ${WCAG_LEVELS.join(', ')} (got "${options.level}")`);
+        process.exit(1);
+      }
+      const failOn = SEVERITIES.indexOf(options.failOn);
+      if (failOn === -1) {
+        console.error(`❌ --fail-on must be one of: ${SEVERITIES.join(', ')}`);
+        process.exit(1);
+      }
+
+      console.log(`♿ Auditing: ${url}\n`);
+      const browser = await getBrowserType(browsers[0]).launch({ headless: !options.headed });
+      let report;
+      try {
+        const page = await browser.newPage();
+        await page.goto(url, { waitUntil: 'load' });
+        await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {});
+        report = await new AccessibilityAuditor(page).audit({
+          level,
+          selector: options.selector,
+          ignoreRules: options.ignoreRules ? options.ignoreRules.split(',').map((r: string) => r.trim()) : undefined,
+        });
+      } finally {
+        await browser.close();
+      }
+
+      AccessibilityAuditor.printSummary(report);
+      if (options.output) {
+        fs.mkdirSync(path.dirname(path.resolve(options.output)), { recursive: true });
+        fs.writeFileSync(options.output, JSON.stringify(report, null, 2));
+        console.log(`📄 Report: ${options.output}`);
+      }
+
+      process.exit(report.issues.some(i => SEVERITIES.indexOf(i.severity) <= failOn) ? 1 : 0);
     } catch (error) {
       console.error('\n❌ Error:', error instanceof Error ? error.message : error);
       process.exit(1);
@@ -308,10 +630,19 @@ formCommand
   .option('--output <dir>', 'Output directory for results')
   .option('--headless', 'Run in headless mode (default: true)', true)
   .option('--headed', 'Show browser')
+  .option('--browser <engine>', 'Browser engine(s): chromium|firefox|webkit|all (comma-separated for several)')
+  .option('--viewports <list>', 'Devices or sizes to test at, comma-separated (e.g. "iPhone 13,1280x720")')
+  .option('--wcag-level <level>', 'WCAG level for field accessibility checks: A|AA|AAA', 'AA')
   .action(async (url: string, options) => {
     try {
       const { FormTester } = await import('./core/form/form-tester');
 
+      const wcagLevel = String(options.wcagLevel).toUpperCase() as WcagLevel;
+      if (!WCAG_LEVELS.includes(wcagLevel)) {
+        console.error(`❌ --wcag-level must be one of: ${WCAG_LEVELS.join(', ')} (got "${options.wcagLevel}")`);
+        process.exit(1);
+      }
+
       console.log('🤖 fe-pilot Form Testing\n');
 
       // Parse credentials
@@ -333,23 +664,65 @@ formCommand
       });
 
       // Run test
-      const result = await tester.testForm(url, {
+      const runs = await tester.testFormRuns(url, {
         mode: options.mode,
+        wcagLevel,
         credentials,
+        browsers: parseBrowserList(options.browser),
+        viewports: options.viewports ? String(options.viewports).split(',').map((v: string) => v.trim()).filter(Boolean) : undefined,
       });
 
-      // Display summary
+      // Display summary, one row per engine/viewport
       console.log('\n' + '='.repeat(80));
       console.log('\n📊 FORM TEST SUMMARY\n');
-      console.log(`Form: ${result.form.id || 'Unnamed'}`);
-      console.log(`✅ Pass Rate: ${result.summary.passRate}%`);
-      console.log(`❌ Critical Issues: ${result.summary.criticalIssues}`);
-      console.log(`⚠️  Warnings: ${result.summary.warnings}`);
-      console.log(`⏱️  Duration: ${(result.duration / 1000).toFixed(2)}s`);
-      console.log(`💰 AI Cost: $${result.aiCost.toFixed(4)}`);
+      const form = runs.find(r => r.result)?.result!.form;
+      console.log(`Form: ${form ? form.id || 'Unnamed' : '-'}\n`);
+      const fit = (text: string) => (text.length > 30 ? text.slice(0, 27) + '...' : text).padEnd(30);
+      console.log(`  ${fit('Run')}  ${['Pass rate', 'Critical', 'Warnings', 'Duration', 'AI cost'].map(c => c.padEnd(10)).join(' ')}`);
+      for (const run of runs) {
+        const label = `${run.passed ? '✅' : '❌'} ${[run.browser, run.viewport].filter(Boolean).join(' · ')}`;
+        if (!run.result) {
+          console.log(`  ${fit(label)}  Error: ${run.error!.split('\n')[0]}`);
+          continue;
+        }
+        const { summary, duration, aiCost } = run.result;
+        const cells = [`${summary.passRate}%`, String(summary.criticalIssues), String(summary.warnings), `${(duration / 1000).toFixed(2)}s`, `$${aiCost.toFixed(4)}`];
+        console.log(`  ${fit(label)}  ${cells.map(c => c.padEnd(10)).join(' ')}`);
+      }
+      const failed = runs.filter(r => !r.passed);
+      if (failed.length) console.log(`\n❌ Errors or critical issues in ${failed.length}/${runs.length} run(s)`);
       console.log('\n' + '='.repeat(80));
 
-      process.exit(result.summary.criticalIssues > 0 ? 1 : 0);
+      process.exit(failed.length ? 1 : 0);
+    } catch (error) {
+      console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// VISUAL BASELINE COMMANDS
+// ============================================================================
+
+const baselineCommand = program
+  .command('baseline')
+  .description('Manage screenshot_matches baselines');
+
+// baseline update - Accept the latest failing screenshots as new baselines
+baselineCommand
+  .command('update [results]')
+  .description('Accept changed screenshots from a results directory as the new baselines')
+  .option('--grep <pattern>', 'Only accept baselines whose name matches this pattern')
+  .action((results: string | undefined, options) => {
+    try {
+      const resultsDir = path.resolve(results || 'fe-pilot-results');
+      const accepted = acceptBaselines(resultsDir, options.grep);
+      if (accepted.length === 0) {
+        console.log(`✓ No pending baseline changes in ${resultsDir}`);
+        return;
+      }
+      accepted.forEach(e => console.log(`🖼️  ${e.name}${e.diffRatio !== undefined ? ` (${(e.diffRatio * 100).toFixed(3)}% changed)` : ''} → ${e.baseline}`));
+      console.log(`\n✅ Updated ${accepted.length} baseline(s)`);
     } catch (error) {
       console.error('\n❌ Error:', error instanceof Error ? error.message : error);
       process.exit(1);
@@ -1,5 +1,7 @@
 // AI Integration types for Phase 2
 
+import { Action } from './index';
+
 export interface AIObservation {
   stepNumber: number;
   timestamp: number;
@@ -10,6 +12,7 @@ export interface AIObservation {
     title: string;
     buttons: string[];
     inputs: string[];
+    fillable?: string[];
     links: string[];
     visibleText: string[];
     interactiveElementsSummary?: {
@@ -31,6 +34,10 @@ export interface AIObservation {
     method: string;
     status: number;
     duration: number;
+    // Failed (4xx/5xx) requests only - redacted and truncated
+    requestHeaders?: Record<string, string>;
+    requestBody?: string;
+    responseBody?: string;
   }>;
   newErrors: {
     consoleErrors: number;
@@ -43,6 +50,7 @@ export interface AIObservation {
   previousActions: Array<{
     action: string;
     selector?: string;
+    element?: string;
     value?: string;
     url?: string;
     description?: string;
@@ -117,4 +125,22 @@ export interface ExplorationSession {
   actions: AIAction[];
   bugsFound: number;
   bugsFixed: number;
+  trace?: string;      // Playwright trace (explore --trace)
+  url?: string;        // Starting URL
+  executedActions?: Action[]; // Actions run so far, replayed by explore --resume
 }
+
+// How explore --resume gets back to the last page state
+export type ResumeMode =
+  | 'replay'   // Re-run executedActions from the starting URL
+  | 'storage'; // Load storage-state.json (cookies, localStorage) and open the last URL
+
+// How explore exchanges observations/actions with the AI
+export type AITransportName =
+  | 'file'   // observation.json out, action.json polled in the session directory
+  | 'stdio'  // JSON lines: observations on stdout, actions on stdin (logs move to stderr)
+  | 'http';  // Local server: GET /observation, POST /action, or a WebSocket at /ws
+
+// Built-in explorers that decide without an AI (explore --policy)
+export type ExplorationPolicyName =
+  | 'crawl'; // Breadth-first: fill inputs, click safe buttons and links, page by page
@@ -22,7 +22,14 @@ export type ActionType =
   | 'toggle'           // Toggle checkbox/switch/radio
   | 'clear'            // Clear field value
   | 'focus'            // Focus element
-  | 'blur';            // Blur element (unfocus)
+  | 'blur'             // Blur element (unfocus)
+  // Network mocking
+  | 'mock_route'       // Intercept matching requests (see RouteMock)
+  | 'unmock_route'     // Remove mocks for `url` (all mocks when omitted)
+  // Control flow (handled by Pilot, never reach ActionExecutor)
+  | 'if'               // Run `then` or `else` steps depending on `when`
+  | 'repeat'           // Run `steps` `times` times
+  | 'for_each';        // Run `steps` once per entry in `items`
 
 // Smart wait conditions
 export type WaitCondition =
@@ -57,14 +64,34 @@ export type AssertionType =
   | 'no_validation_errors'
   | 'form_valid'
   | 'form_complete'    // NEW: All required fields filled
-  | 'network_success'
+  | 'network_success'  // Matching request(s) made, all with 2xx/3xx (or `status`)
+  | 'network_request'  // Matching request made (optionally checking status/json/request_contains)
+  | 'no_network_request' // No matching request made in the step window
   | 'cookie_exists'
   | 'cookie_has'       // Alias
-  | 'localstorage_has';
+  | 'localstorage_has'
+  | 'screenshot_matches' // Page/element screenshot vs stored baseline
+  | 'a11y_clean';      // No accessibility issues at the WCAG level (page, or inside `selector`)
+
+// WCAG conformance level for accessibility checks
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+
+// Alternative ways to find an element, tried when `selector` matches nothing
+export type SelectorCandidate = string | {
+  role?: string;               // ARIA role, with optional accessible `name`
+  name?: string;
+  text?: string;
+  label?: string;              // Form field by its label text
+  test_id?: string;            // data-testid
+  placeholder?: string;
+  exact?: boolean;             // Case-sensitive, full-string match for name/text/label
+};
 
 export interface Action {
   action: ActionType;
   selector?: string;
+  fallbacks?: SelectorCandidate[]; // Tried in order when `selector` matches nothing (YAML `selector: [a, b]` splits into these)
+  element?: string;  // Natural-language target ("the Save button in the profile card"), used without a selector or when none matches
   value?: string;
   url?: string;
   duration?: number;
@@ -89,6 +116,9 @@ export interface Action {
   // Assertion options
   assert_type?: AssertionType;
   expected?: string | number | boolean;
+  wcag_level?: WcagLevel;      // a11y_clean: level to check (default config.wcagLevel)
+  ignore_rules?: string[];     // a11y_clean: rule ids to skip, e.g. color-contrast
+  min_severity?: 'critical' | 'high' | 'medium' | 'low'; // a11y_clean: fail only on issues this severe or worse (default: low = any)
   // Key press options
   key?: string;                // For press_key: key to press
   modifiers?: string[];        // For press_key: modifier keys (Ctrl, Shift, Alt)
@@ -103,6 +133,61 @@ export interface Action {
   direction?: 'top' | 'bottom';// For scroll: direction
   wait_until?: 'load' | 'domcontentloaded' | 'networkidle' | 'commit'; // For navigate
   condition?: WaitCondition;   // For wait: wait condition
+  // Control flow options
+  when?: StepCondition;        // For if: condition to evaluate
+  then?: Action[];             // For if: steps when condition holds
+  else?: Action[];             // For if: steps when condition fails
+  times?: number;              // For repeat: iteration count
+  items?: any[] | string;      // For for_each: list or variable name
+  as?: string;                 // For for_each: loop variable name (default: item)
+  steps?: Action[];            // For repeat/for_each: loop body ({{index}} is the 0-based iteration)
+  // Network mocking options (mock_route: `url` is the pattern, `delay` delays the response, `times` limits matches)
+  // method/status/url are also the request matchers for network_* assertions
+  method?: string;
+  status?: number | string;
+  body?: any;
+  fixture?: string;
+  headers?: Record<string, string>;
+  content_type?: string;
+  abort?: boolean | string;
+  // Network assertion options (see NetworkMatch)
+  json?: Record<string, any>;
+  request_contains?: string | Record<string, any>;
+  count?: number;
+  scope?: 'step' | 'scenario'; // For no_console_errors: since the last step (default) or scenario start
+  // Screenshot / visual regression options (`selector` limits the shot to one element)
+  name?: string;               // Screenshot file name / screenshot_matches baseline name (default: from description)
+  full_page?: boolean;
+  mask?: string[];             // Selectors painted over
+  screenshot?: string;         // For screenshot_matches: compare this named screenshot instead of taking one
+  threshold?: number;          // Max fraction of differing pixels (default: config.visualThreshold or 0)
+  pixel_threshold?: number;    // Per-pixel color tolerance 0-1 (default 0.1)
+}
+
+// Request interception for mock_route steps and config.mocks
+export interface RouteMock {
+  url: string;                 // Glob ("**/api/properties*") or regex ("/api\/v\d\/search/i")
+  method?: string;             // Only intercept this HTTP method
+  status?: number;             // Default 200
+  body?: any;                  // String, or object sent as JSON
+  fixture?: string;            // File with the response body (relative to the scenario file)
+  headers?: Record<string, string>;
+  content_type?: string;
+  delay?: number;              // ms before responding/aborting
+  abort?: boolean | string;    // Fail with a network error (true, or a Playwright error code e.g. "timedout")
+  times?: number;              // Only intercept the first N matching requests
+}
+
+// Condition for `if` steps - either a wait condition (probed with a short
+// timeout) or an assertion (evaluated once)
+export interface StepCondition {
+  condition?: WaitCondition;
+  assert_type?: AssertionType;
+  selector?: string;
+  value?: string;
+  expected?: string | number | boolean;
+  timeout?: number;
+  negate?: boolean;
 }
 
 // Smart wait options
@@ -113,13 +198,25 @@ export interface WaitForOptions {
   timeout?: number;
 }
 
-export interface Expectation {
+export interface Expectation extends NetworkMatch {
   type: 'element_visible' | 'no_console_errors' | 'network_success' | 'url_changed' | 'element_text'
-    | 'no_validation_errors' | 'form_submitted' | 'page_changed' | 'element_hidden';
+    | 'no_validation_errors' | 'form_submitted' | 'page_changed' | 'element_hidden'
+    | 'network_request' | 'no_network_request';
   selector?: string;
-  url?: string;
   pattern?: string;
   contains?: string;
+  scope?: 'step' | 'scenario'; // For no_console_errors
+}
+
+// Request matching for network_* assertions and expectations. Checked against
+// the step's requests (assert steps also see the previous step's requests).
+export interface NetworkMatch {
+  url?: string;                // Substring, glob ("**/api/auth/*") or regex ("/\/api\/v\d\//")
+  method?: string;
+  status?: number | string;    // Exact (201), class ("4xx") or range ("200-299")
+  json?: Record<string, any>;  // Response JSON path -> expected value ("data.items.0.id": 5)
+  request_contains?: string | Record<string, any>; // Request body substring, or JSON path -> value
+  count?: number;              // Exact number of matching requests
 }
 
 // Observation data structures
@@ -146,6 +243,19 @@ export interface NetworkRequest {
   requestBody?: string;
   responseBody?: string;
   errorType?: 'timeout' | 'cors' | 'server_error' | 'client_error' | 'network_error';
+  mocked?: boolean;    // Answered (or aborted) by a route mock
+}
+
+// Max console entries per ConsoleLog.category before no_console_errors fails
+// (default: critical 0, others unlimited)
+export type ConsoleThresholds = Partial<Record<'critical' | 'warning' | 'info' | 'debug', number>>;
+
+// Observer request/response capture (config.networkCapture)
+export interface NetworkCaptureOptions {
+  bodies?: 'none' | 'errors' | 'api' | 'all'; // Which requests keep bodies (default: api = fetch/xhr plus any 4xx/5xx)
+  maxBodySize?: number;        // Characters kept per body (default 10000)
+  redactHeaders?: string[];    // Extra header names to redact (auth and cookie headers always are)
+  redactFields?: string[];     // Extra JSON/form field names to redact (password, token, secret... always are)
 }
 
 // Form validation state
@@ -180,6 +290,7 @@ export interface DOMState {
   visibleText: string[];
   buttons: string[];
   inputs: string[];
+  fillable?: string[];  // Inputs that can be typed into (visible, enabled, text-like)
   links: string[];
   interactiveElementsSummary?: {
     totalButtons: number;
@@ -238,6 +349,7 @@ export interface Observation {
   stepNumber: number;
   action: Action;
   screenshot?: string;
+  screenshotName?: string;     // Set for named `screenshot` steps
   consoleLogs: ConsoleLog[];
   newConsoleLogs: ConsoleLog[];
   networkRequests: NetworkRequest[];
@@ -261,16 +373,45 @@ export interface Scenario {
     password: string;
   };
   variables?: Record<string, any>;
+  tags?: string[];
   steps: Action[];
   config?: ScenarioConfig;
 }
 
-export interface ScenarioConfig {
-  headless?: boolean;
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
+// Device / viewport emulation applied to the browser context
+export interface EmulationProfile {
+  name?: string;            // Label used in reports (default: derived from device/viewport)
+  device?: string;          // Playwright device descriptor, e.g. "iPhone 13"
   viewport?: {
     width: number;
     height: number;
   };
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  deviceScaleFactor?: number;
+  locale?: string;          // e.g. "ru-RU"
+  timezone?: string;        // IANA id, e.g. "Asia/Tashkent"
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+}
+
+// Video/trace recording: always, or kept only when the run fails
+export type ArtifactMode = 'off' | 'on' | 'retain-on-failure';
+
+export interface ScenarioConfig extends EmulationProfile {
+  browser?: BrowserName;
+  headless?: boolean;
+  matrix?: EmulationProfile[]; // Run the scenario once per entry (merged over the base config)
+  mocks?: RouteMock[];         // Route mocks installed before the first step
+  networkCapture?: NetworkCaptureOptions;
+  ignoreConsoleErrors?: string[];          // Regexes for console messages no_console_errors ignores
+  consoleErrorThresholds?: ConsoleThresholds;
+  wcagLevel?: WcagLevel;       // Default level for a11y_clean (AA)
+  baselineDir?: string;        // screenshot_matches baselines, relative to the scenario file (default: __baselines__)
+  visualThreshold?: number;    // Default screenshot_matches threshold (fraction of pixels)
+  video?: ArtifactMode;        // Saved to <output>/videos
+  trace?: ArtifactMode;        // Playwright trace, saved to <output>/traces
   timeout?: number;
   slowMo?: number;
   screenshotOnError?: boolean;
@@ -293,6 +434,17 @@ export interface StepResult {
   retryCount?: number;
   assertions?: AssertionResult[];
   formValidation?: FormValidation;
+  selectorMatch?: SelectorMatch; // Set for steps with selector fallbacks
+  // Control flow: nested results of if/repeat/for_each steps
+  children?: StepResult[];
+  iteration?: number;
+  branch?: 'then' | 'else';
+}
+
+export interface SelectorMatch {
+  original: string;
+  matched: string;
+  healed: boolean;             // A fallback matched instead of `original`
 }
 
 export interface AssertionResult {
@@ -301,6 +453,11 @@ export interface AssertionResult {
   expected?: any;
   actual?: any;
   message?: string;
+  images?: {           // screenshot_matches
+    baseline: string;
+    actual?: string;
+    diff?: string;
+  };
 }
 
 export interface AIAnalysis {
@@ -356,6 +513,63 @@ export interface TestReport {
     retriedSteps: number;
   };
   errorSummary?: ErrorSummary;
+  file?: string;        // Scenario file, when run from a directory
+  browser?: BrowserName;
+  variant?: string;     // Matrix entry label (device / viewport)
+  artifacts?: {         // config.video / config.trace recordings
+    video?: string;
+    trace?: string;
+  };
+}
+
+// Aggregate of several scenario runs (`fe-pilot run <dir>`)
+export interface SuiteReport {
+  status: 'passed' | 'failed' | 'warning';
+  duration: number;
+  startTime: number;
+  endTime: number;
+  reports: TestReport[];
+  summary: {
+    totalScenarios: number;
+    passed: number;
+    failed: number;
+    warnings: number;
+    totalSteps: number;
+    stepsPassed: number;
+    stepsFailed: number;
+    stepsSkipped: number;
+    assertionsPassed: number;
+    assertionsFailed: number;
+  };
+}
+
+// Site crawl (`fe-pilot crawl`)
+export interface CrawlPage {
+  url: string;
+  depth: number;              // Clicks from the start URL
+  status?: number;            // Main document status
+  error?: string;             // Navigation failed (timeout, DNS, ...)
+  title?: string;
+  links: string[];            // Outgoing http(s) links, without hash
+  consoleErrors: string[];
+  failedRequests: Array<{ url: string; method: string; status: number }>;
+  loadTime?: number;          // ms until the load event, measured around goto
+  performance?: PerformanceMetrics;
+}
+
+export interface CrawlReport {
+  startUrl: string;
+  startTime: number;
+  duration: number;
+  pages: CrawlPage[];
+  edges: Array<{ from: string; to: string }>;  // Site map: page -> linked page
+  brokenLinks: Array<{ url: string; status?: number; error?: string; foundOn: string[] }>;
+  skipped: {
+    external: number;         // Off-origin links (--same-origin)
+    filtered: number;         // Excluded, or not matching --include
+    tooDeep: number;          // Beyond --depth
+    overBudget: number;       // Left in the queue at --max-pages
+  };
 }
 
 // AI Integration
@@ -0,0 +1,86 @@
+import { Action, ActionType } from '../types';
+import { AIAction, AIDecision, AIBugReport } from '../types/ai';
+import { ScenarioParser } from './scenario-parser';
+
+// Records keyed by the union types, so the compiler flags a missing entry
+const DECISIONS: Record<AIDecision, true> = { continue: true, fix_bug: true, goal_achieved: true, stuck: true, abort: true };
+const ACTION_TYPES: Record<ActionType, boolean> = {
+  navigate: true, click: true, type: true, select: true, select_option: true, fill_date: true, upload: true,
+  wait: true, wait_for: true, screenshot: true, scroll: true, hover: true, verify: true, assert: true,
+  check_form: true, press_key: true, fill_field: true, auto_fill_form: true, toggle: true, clear: true,
+  focus: true, blur: true, mock_route: true, unmock_route: true,
+  // Control flow is run by Pilot; the explorer executes actions one by one
+  if: false, repeat: false, for_each: false,
+};
+const SEVERITIES: AIBugReport['severity'][] = ['low', 'medium', 'high', 'critical'];
+const BUG_TYPES: AIBugReport['type'][] = ['console_error', 'network_error', 'visual_bug', 'performance', 'crash'];
+
+export interface AIActionValidation {
+  action?: AIAction;  // Set when valid
+  errors: string[];
+}
+
+/**
+ * Parse and check an AI response (action.json, a stdin line, an http body).
+ * `{"type": "action", "action": {...}}` envelopes are unwrapped.
+ */
+export function validateAIAction(text: string): AIActionValidation {
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { errors: [`Not valid JSON: ${(error as Error).message}`] };
+  }
+  if (value && value.type === 'action' && value.action && typeof value.action === 'object' && 'decision' in value.action) {
+    value = value.action;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { errors: ['Response must be a JSON object with decision and reasoning'] };
+  }
+
+  const errors: string[] = [];
+  if (!DECISIONS[value.decision as AIDecision]) {
+    errors.push(`decision must be one of ${Object.keys(DECISIONS).join('|')} (got ${JSON.stringify(value.decision)})`);
+  }
+  if (typeof value.reasoning !== 'string') errors.push('reasoning must be a string');
+  if (value.action !== undefined && value.actions !== undefined) errors.push('use either action or actions, not both');
+
+  const actions: any[] = [];
+  if (value.action !== undefined) {
+    if (!value.action || typeof value.action !== 'object' || Array.isArray(value.action)) errors.push('action must be an object');
+    else actions.push(value.action);
+  }
+  if (value.actions !== undefined) {
+    if (!Array.isArray(value.actions)) errors.push('actions must be a list');
+    else actions.push(...value.actions);
+  }
+  actions.forEach((action, i) => {
+    const where = value.actions !== undefined ? `actions[${i}]` : 'action';
+    if (!action || typeof action !== 'object' || Array.isArray(action)) { errors.push(`${where} must be an object`); return; }
+    const known = ACTION_TYPES[action.action as ActionType];
+    if (known === undefined) {
+      const available = Object.keys(ACTION_TYPES).filter(k => ACTION_TYPES[k as ActionType]);
+      errors.push(`${where}: unknown action ${JSON.stringify(action.action)} (known: ${available.join(', ')})`);
+      return;
+    }
+    if (!known) { errors.push(`${where}: ${action.action} is not supported while exploring - send the actions it would run`); return; }
+    // Reuse scenario step checks ("Step 1: click needs selector or element")
+    ScenarioParser.validateActions([action as Action]).forEach(e => errors.push(`${where}: ${e.replace(/^Step \d+: /, '')}`));
+  });
+
+  if (value.stopOnError !== undefined && typeof value.stopOnError !== 'boolean') errors.push('stopOnError must be true or false');
+  if (value.concerns !== undefined && (!Array.isArray(value.concerns) || value.concerns.some((c: unknown) => typeof c !== 'string'))) {
+    errors.push('concerns must be a list of strings');
+  }
+  if (value.bugReport !== undefined) {
+    const bug = value.bugReport;
+    if (!bug || typeof bug !== 'object') errors.push('bugReport must be an object');
+    else {
+      if (!SEVERITIES.includes(bug.severity)) errors.push(`bugReport.severity must be one of ${SEVERITIES.join('|')}`);
+      if (!BUG_TYPES.includes(bug.type)) errors.push(`bugReport.type must be one of ${BUG_TYPES.join('|')}`);
+      if (typeof bug.description !== 'string') errors.push('bugReport.description must be a string');
+    }
+  }
+
+  return errors.length ? { errors } : { action: value as AIAction, errors };
+}
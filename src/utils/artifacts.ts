@@ -0,0 +1,60 @@
+import { BrowserContext, BrowserContextOptions, Video } from 'playwright';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ArtifactMode } from '../types';
+
+const MODES: ArtifactMode[] = ['off', 'on', 'retain-on-failure'];
+
+/**
+ * config.video / config.trace value: a mode, or true/false for on/off
+ */
+export function parseArtifactMode(value: unknown, field: string): ArtifactMode {
+  if (value === undefined || value === null || value === false) return 'off';
+  if (value === true) return 'on';
+  if (MODES.includes(value as ArtifactMode)) return value as ArtifactMode;
+  throw new Error(`${field} must be one of ${MODES.join('|')} (got "${value}")`);
+}
+
+export function keepArtifact(mode: ArtifactMode | undefined, failed: boolean): boolean {
+  return mode === 'on' || (mode === 'retain-on-failure' && failed);
+}
+
+/**
+ * Context options that record a video of every page into `dir`
+ */
+export function videoOptions(mode: ArtifactMode | undefined, dir: string): Pick<BrowserContextOptions, 'recordVideo'> {
+  if (!mode || mode === 'off') return {};
+  fs.mkdirSync(dir, { recursive: true });
+  return { recordVideo: { dir } };
+}
+
+export async function startTrace(context: BrowserContext, mode: ArtifactMode | undefined, title?: string): Promise<void> {
+  if (!mode || mode === 'off') return;
+  await context.tracing.start({ title, screenshots: true, snapshots: true, sources: true });
+}
+
+/**
+ * Stop tracing (before the context closes); writes `file` when kept,
+ * otherwise discards the trace. Returns the saved path.
+ */
+export async function stopTrace(context: BrowserContext, mode: ArtifactMode | undefined, failed: boolean, file: string): Promise<string | undefined> {
+  if (!mode || mode === 'off') return undefined;
+  if (!keepArtifact(mode, failed)) { await context.tracing.stop(); return undefined; }
+  const abs = path.resolve(file);
+  fs.mkdirSync(path.dirname(abs), { recursive: true });
+  await context.tracing.stop({ path: abs });
+  return abs;
+}
+
+/**
+ * Move a page's video to `file` when kept, otherwise delete it. Call after
+ * the page is closed - Playwright finishes the video then.
+ */
+export async function saveVideo(video: Video | null | undefined, mode: ArtifactMode | undefined, failed: boolean, file: string): Promise<string | undefined> {
+  if (!video) return undefined;
+  if (!keepArtifact(mode, failed)) { await video.delete(); return undefined; }
+  const abs = path.resolve(file);
+  await video.saveAs(abs);
+  await video.delete();
+  return abs;
+}
@@ -0,0 +1,27 @@
+import { chromium, firefox, webkit, BrowserType } from 'playwright';
+import { BrowserName } from '../types';
+
+export const BROWSER_NAMES: BrowserName[] = ['chromium', 'firefox', 'webkit'];
+
+export function getBrowserType(name: BrowserName = 'chromium'): BrowserType {
+  switch (name) {
+    case 'chromium': return chromium;
+    case 'firefox': return firefox;
+    case 'webkit': return webkit;
+    default: throw new Error(`Unknown browser "${name}". Use one of: ${BROWSER_NAMES.join(', ')}`);
+  }
+}
+
+/**
+ * Parse a --browser value: a single engine, a comma-separated list, or "all"
+ */
+export function parseBrowserList(value: string | string[] | undefined): BrowserName[] {
+  if (!value) return [];
+  const names = (Array.isArray(value) ? value : String(value).split(','))
+    .map(v => v.trim().toLowerCase())
+    .filter(Boolean);
+  if (names.includes('all')) return [...BROWSER_NAMES];
+  const unknown = names.filter(n => !BROWSER_NAMES.includes(n as BrowserName));
+  if (unknown.length) throw new Error(`Unknown browser(s): ${unknown.join(', ')}. Use ${BROWSER_NAMES.join('|')}|all`);
+  return [...new Set(names)] as BrowserName[];
+}
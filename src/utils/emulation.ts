@@ -0,0 +1,91 @@
+import { devices, BrowserContextOptions } from 'playwright';
+import { BrowserName, EmulationProfile } from '../types';
+
+const PROFILE_KEYS: (keyof EmulationProfile)[] = ['name', 'device', 'viewport', 'isMobile', 'hasTouch', 'deviceScaleFactor', 'locale', 'timezone', 'colorScheme'];
+const COLOR_SCHEMES = ['light', 'dark', 'no-preference'];
+
+/**
+ * Parse a profile from YAML/CLI: a device name ("iPhone 13"), a size
+ * ("375x667") or an object with EmulationProfile fields
+ */
+export function parseEmulationProfile(value: any): EmulationProfile {
+  if (typeof value === 'string') {
+    const size = value.trim().match(/^(\d+)\s*x\s*(\d+)$/i);
+    const profile: EmulationProfile = size
+      ? { viewport: { width: parseInt(size[1]), height: parseInt(size[2]) } }
+      : { device: value.trim() };
+    validateEmulationProfile(profile);
+    return profile;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid emulation profile ${JSON.stringify(value)} (use a device name, "WIDTHxHEIGHT" or an object)`);
+  }
+  const profile: EmulationProfile = {};
+  for (const key of PROFILE_KEYS) {
+    if (value[key] !== undefined) (profile as any)[key] = value[key];
+  }
+  validateEmulationProfile(profile);
+  return profile;
+}
+
+export function validateEmulationProfile(profile: EmulationProfile): void {
+  if (profile.device && !devices[profile.device]) {
+    const hint = Object.keys(devices).filter(d => d.toLowerCase().includes(profile.device!.toLowerCase())).slice(0, 5);
+    throw new Error(`Unknown device "${profile.device}"${hint.length ? ` (did you mean: ${hint.join(', ')}?)` : ''}`);
+  }
+  if (profile.viewport && !(profile.viewport.width > 0 && profile.viewport.height > 0)) {
+    throw new Error(`Invalid viewport ${JSON.stringify(profile.viewport)} (needs positive width and height)`);
+  }
+  if (profile.colorScheme && !COLOR_SCHEMES.includes(profile.colorScheme)) {
+    throw new Error(`Invalid colorScheme "${profile.colorScheme}" (use ${COLOR_SCHEMES.join(', ')})`);
+  }
+}
+
+/**
+ * Short label for reports: the explicit name, else device or size plus
+ * any locale/timezone/color scheme overrides
+ */
+export function emulationLabel(profile: EmulationProfile): string {
+  if (profile.name) return profile.name;
+  return [
+    profile.device || (profile.viewport && `${profile.viewport.width}x${profile.viewport.height}`),
+    profile.colorScheme,
+    profile.locale,
+    profile.timezone,
+  ].filter(Boolean).join(' ') || 'default';
+}
+
+/**
+ * BrowserContext options for a profile. Explicit fields override the
+ * device descriptor; the viewport defaults to 1280x720.
+ */
+export function contextOptions(profile: EmulationProfile, browser: BrowserName = 'chromium'): BrowserContextOptions {
+  const { defaultBrowserType, ...descriptor } = profile.device ? devices[profile.device] : ({} as any);
+  const options: BrowserContextOptions = {
+    ...descriptor,
+    viewport: profile.viewport || descriptor.viewport || { width: 1280, height: 720 },
+  };
+  if (profile.isMobile !== undefined) options.isMobile = profile.isMobile;
+  if (profile.hasTouch !== undefined) options.hasTouch = profile.hasTouch;
+  if (profile.deviceScaleFactor !== undefined) options.deviceScaleFactor = profile.deviceScaleFactor;
+  if (profile.locale) options.locale = profile.locale;
+  if (profile.timezone) options.timezoneId = profile.timezone;
+  if (profile.colorScheme) options.colorScheme = profile.colorScheme;
+  // Firefox has no mobile emulation; keep the size/touch/user agent and drop the flag
+  if (browser === 'firefox') delete options.isMobile;
+  return options;
+}
+
+/**
+ * Expand a config's matrix into one config per entry (entry fields override
+ * the base). Returns the base config alone when there is no matrix.
+ */
+export function expandMatrix<T extends EmulationProfile & { matrix?: EmulationProfile[] }>(config: T): Array<{ label?: string; config: T }> {
+  const { matrix, ...base } = config;
+  if (!matrix?.length) return [{ config }];
+  return matrix.map(entry => {
+    // A device entry replaces the base viewport rather than inheriting it
+    const merged = { ...base, ...(entry.device && !entry.viewport ? { viewport: undefined } : {}), ...entry } as T;
+    return { label: emulationLabel(entry), config: merged };
+  });
+}
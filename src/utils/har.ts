@@ -0,0 +1,34 @@
+import { BrowserContext, BrowserContextOptions } from 'playwright';
+import * as path from 'path';
+import * as fs from 'fs';
+
+/**
+ * Context options that record all traffic (with bodies) to `file`.
+ * Playwright writes the HAR when the context closes.
+ */
+export function harRecordOptions(file: string): Pick<BrowserContextOptions, 'recordHar'> {
+  const abs = path.resolve(file);
+  fs.mkdirSync(path.dirname(abs), { recursive: true });
+  console.log(`📼 Recording HAR: ${abs}`);
+  return { recordHar: { path: abs, content: 'embed' } };
+}
+
+/**
+ * Serve every request from a recorded HAR. Requests missing from the HAR
+ * are aborted, so the run never reaches the network.
+ */
+export async function replayHar(context: BrowserContext, file: string): Promise<void> {
+  const abs = path.resolve(file);
+  if (!fs.existsSync(abs)) throw new Error(`HAR file not found: ${file}`);
+  console.log(`📼 Replaying HAR (offline): ${abs}`);
+  await context.routeFromHAR(abs, { notFound: 'abort' });
+}
+
+/**
+ * Per-run HAR path when one --record-har/--replay-har value covers several
+ * runs: "traffic.har" + "02-login" -> "traffic-02-login.har"
+ */
+export function harPathFor(file: string, suffix: string): string {
+  const ext = path.extname(file) || '.har';
+  return `${file.slice(0, file.length - path.extname(file).length)}-${suffix}${ext}`;
+}
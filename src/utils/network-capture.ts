@@ -0,0 +1,78 @@
+import { NetworkCaptureOptions, NetworkRequest } from '../types';
+
+export const REDACTED = '[REDACTED]';
+
+const DEFAULT_REDACT_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key', 'x-auth-token', 'x-csrf-token', 'x-xsrf-token'];
+const DEFAULT_REDACT_FIELDS = /passw(or)?d|^pass$|secret|token|api[_-]?key|authorization|cvv|card[_-]?number/i;
+const TEXT_TYPES = /json|text|xml|javascript|x-www-form-urlencoded|graphql/i;
+
+export const DEFAULT_MAX_BODY_SIZE = 10000;
+
+// Unredacted, untruncated text bodies for network assertions - kept off the
+// request objects so they never reach reports or the AI
+const rawBodies = new WeakMap<NetworkRequest, { request?: string; response?: string }>();
+
+export function keepRawBody(entry: NetworkRequest, kind: 'request' | 'response', body: Buffer | string | null | undefined, contentType: string | undefined): void {
+  if (body === null || body === undefined || (contentType && !TEXT_TYPES.test(contentType))) return;
+  rawBodies.set(entry, { ...rawBodies.get(entry), [kind]: typeof body === 'string' ? body : body.toString('utf8') });
+}
+
+/**
+ * Body as the page sent/received it, falling back to the stored (redacted) one
+ */
+export function rawBody(entry: NetworkRequest, kind: 'request' | 'response'): string | undefined {
+  return rawBodies.get(entry)?.[kind] ?? (kind === 'request' ? entry.requestBody : entry.responseBody);
+}
+
+export function isSensitiveField(key: string, options: NetworkCaptureOptions = {}): boolean {
+  return DEFAULT_REDACT_FIELDS.test(key) || (options.redactFields || []).some(f => f.toLowerCase() === key.toLowerCase());
+}
+
+export function redactHeaders(headers: Record<string, string>, options: NetworkCaptureOptions = {}): Record<string, string> {
+  const names = [...DEFAULT_REDACT_HEADERS, ...(options.redactHeaders || []).map(h => h.toLowerCase())];
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name] = names.includes(name.toLowerCase()) ? REDACTED : value;
+  }
+  return result;
+}
+
+/**
+ * Turn a captured body into something safe to store: binary bodies are
+ * summarized, JSON and form bodies have sensitive fields redacted, and
+ * everything is truncated to `maxBodySize` characters
+ */
+export function formatBody(body: Buffer | string | null | undefined, contentType: string | undefined, options: NetworkCaptureOptions = {}): string | undefined {
+  if (body === null || body === undefined) return undefined;
+  const size = typeof body === 'string' ? Buffer.byteLength(body) : body.length;
+  if (size === 0) return undefined;
+  if (contentType && !TEXT_TYPES.test(contentType)) return `[binary ${contentType.split(';')[0]}, ${size} bytes]`;
+
+  let text = typeof body === 'string' ? body : body.toString('utf8');
+  const isField = (key: string) => isSensitiveField(key, options);
+
+  if (/json|graphql/i.test(contentType || '') || /^\s*[{[]/.test(text)) {
+    try {
+      text = JSON.stringify(redactFields(JSON.parse(text), isField));
+    } catch {
+      // Not valid JSON (or truncated by the server) - keep the raw text
+    }
+  } else if (/x-www-form-urlencoded/i.test(contentType || '')) {
+    const params = new URLSearchParams(text);
+    params.forEach((_, key) => { if (isField(key)) params.set(key, REDACTED); });
+    text = params.toString();
+  }
+
+  const max = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+  return text.length > max ? `${text.slice(0, max)}…[truncated ${text.length - max} chars]` : text;
+}
+
+function redactFields(value: any, isField: (key: string) => boolean): any {
+  if (Array.isArray(value)) return value.map(v => redactFields(v, isField));
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, v] of Object.entries(value)) result[key] = isField(key) && v !== null && typeof v !== 'object' ? REDACTED : redactFields(v, isField);
+    return result;
+  }
+  return value;
+}
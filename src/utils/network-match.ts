@@ -0,0 +1,119 @@
+import { NetworkRequest, NetworkMatch } from '../types';
+import { rawBody, isSensitiveField, REDACTED } from './network-capture';
+
+export type NetworkCheck = 'network_success' | 'network_request' | 'no_network_request';
+
+/**
+ * URL patterns: "/.../flags" is a regex, anything with "*" is a glob
+ * ("**" spans path segments), otherwise a substring
+ */
+export function urlMatches(url: string, pattern?: string): boolean {
+  if (!pattern) return true;
+  const regex = pattern.match(/^\/(.+)\/([dgimsuy]*)$/);
+  if (regex) return new RegExp(regex[1], regex[2]).test(url);
+  if (pattern.includes('*')) {
+    const source = pattern.split('**').map(part => part.split('*').map(escapeRegex).join('[^/]*')).join('.*');
+    return new RegExp(`^${source}$`).test(url) || new RegExp(`${source}$`).test(url.split('?')[0]);
+  }
+  return url.includes(pattern);
+}
+
+/**
+ * Status spec: 201, "201", "4xx" or "200-299". Without a spec, 2xx/3xx pass.
+ */
+export function statusMatches(status: number, spec?: number | string): boolean {
+  if (spec === undefined || spec === '') return status >= 200 && status < 400;
+  const text = String(spec).trim().toLowerCase();
+  const cls = text.match(/^([1-5])xx$/);
+  if (cls) return Math.floor(status / 100) === Number(cls[1]);
+  const range = text.match(/^(\d{3})\s*-\s*(\d{3})$/);
+  if (range) return status >= Number(range[1]) && status <= Number(range[2]);
+  return status === Number(text);
+}
+
+/**
+ * Value at a dotted path ("data.items.0.id", "data.items[0].id")
+ */
+export function valueAtPath(obj: any, path: string): any {
+  return path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean).reduce((o, k) => o?.[k], obj);
+}
+
+/**
+ * Check a network_* assertion against a window of requests. Bodies are
+ * matched unredacted and untruncated; messages show redacted fields as such.
+ */
+export function checkNetwork(type: NetworkCheck, match: NetworkMatch, requests: NetworkRequest[]): { passed: boolean; message: string; actual?: string } {
+  const label = `${match.method ? `${match.method.toUpperCase()} ` : ''}${match.url || 'any request'}`;
+  const matching = requests.filter(r => urlMatches(r.url, match.url) && (!match.method || r.method.toUpperCase() === match.method.toUpperCase()));
+  const actual = matching.map(r => `${r.method} ${r.url} → ${r.status}`).join('\n') || undefined;
+
+  if (type === 'no_network_request') {
+    return matching.length
+      ? { passed: false, message: `Unexpected request: ${label} (${matching.length} made)`, actual }
+      : { passed: true, message: `No request to ${label}` };
+  }
+
+  if (!matching.length) {
+    return { passed: false, message: `No request to ${label} in this step (${requests.length} requests seen)` };
+  }
+  if (match.count !== undefined && matching.length !== match.count) {
+    return { passed: false, message: `Expected ${match.count} request(s) to ${label}, got ${matching.length}`, actual };
+  }
+
+  // network_success requires every matching request to succeed; network_request only checks status when given
+  const checkStatus = type === 'network_success' || match.status !== undefined;
+  const badStatus = checkStatus ? matching.filter(r => !statusMatches(r.status, match.status)) : [];
+  if (badStatus.length) {
+    const expected = match.status === undefined ? '2xx/3xx' : match.status;
+    return { passed: false, message: `${label}: expected status ${expected}, got ${badStatus.map(r => r.status).join(', ')}`, actual };
+  }
+
+  const last = matching[matching.length - 1];
+  if (match.json) {
+    const body = parseJson(rawBody(last, 'response'));
+    if (body === undefined) return { passed: false, message: `${label}: response body not captured or not JSON (see config.networkCapture)`, actual: last.responseBody };
+    const mismatch = Object.entries(match.json).find(([path, expected]) => !sameValue(valueAtPath(body, path), expected));
+    if (mismatch) {
+      return { passed: false, message: `${label}: response ${mismatch[0]} expected ${shown(mismatch[0], mismatch[1])}, got ${shown(mismatch[0], valueAtPath(body, mismatch[0]))}`, actual: last.responseBody };
+    }
+  }
+
+  if (match.request_contains !== undefined) {
+    const payload = rawBody(last, 'request') || '';
+    if (typeof match.request_contains === 'string') {
+      if (!payload.includes(match.request_contains)) {
+        return { passed: false, message: `${label}: request body missing "${match.request_contains}"`, actual: last.requestBody };
+      }
+    } else {
+      const body = parseJson(payload);
+      const mismatch = Object.entries(match.request_contains).find(([path, expected]) => !sameValue(valueAtPath(body, path), expected));
+      if (mismatch) {
+        return { passed: false, message: `${label}: request ${mismatch[0]} expected ${shown(mismatch[0], mismatch[1])}, got ${shown(mismatch[0], valueAtPath(body, mismatch[0]))}`, actual: last.requestBody };
+      }
+    }
+  }
+
+  return { passed: true, message: `${label} → ${matching.map(r => r.status).join(', ')}`, actual };
+}
+
+// Values of sensitive fields (password, token...) stay out of messages
+function shown(path: string, value: any): string {
+  const key = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean).pop() || '';
+  return isSensitiveField(key) && value !== undefined ? REDACTED : JSON.stringify(value);
+}
+
+function parseJson(text?: string): any {
+  if (!text) return undefined;
+  try { return JSON.parse(text); } catch { return undefined; }
+}
+
+function sameValue(actual: any, expected: any): boolean {
+  if (expected === null || typeof expected !== 'object') {
+    return actual === expected || (actual !== undefined && actual !== null && typeof actual !== 'object' && String(actual) === String(expected));
+  }
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
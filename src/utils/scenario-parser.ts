@@ -1,9 +1,16 @@
 import * as yaml from 'js-yaml';
 import * as fs from 'fs';
 import * as path from 'path';
-import { Scenario, Action } from '../types';
+import { Scenario, Action, WcagLevel } from '../types';
+import { BROWSER_NAMES } from './browsers';
+import { parseEmulationProfile } from './emulation';
+import { parseArtifactMode } from './artifacts';
+import { candidateSelector } from './selectors';
 
-const faker = {
+const WCAG_LEVELS: WcagLevel[] = ['A', 'AA', 'AAA'];
+const A11Y_SEVERITIES = ['critical', 'high', 'medium', 'low'];
+
+export const faker = {
   person: {
     firstName: () => ['John', 'Jane', 'Alex', 'Maria', 'Michael', 'Sarah'][Math.floor(Math.random() * 6)],
     lastName: () => ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia'][Math.floor(Math.random() * 6)],
@@ -46,31 +53,295 @@ const random = {
   uuid: () => faker.datatype.uuid(),
 };
 
+interface SourceLocation {
+  file: string;
+  line: number;
+}
+
+interface StepBlock {
+  name: string;
+  params: Record<string, any>;
+  required: string[];
+  steps: any[];
+  location: SourceLocation;
+}
+
+interface LoadContext {
+  locations: WeakMap<object, SourceLocation>;
+  blocks: Map<string, StepBlock>;
+  loaded: Set<string>;
+}
+
 export class ScenarioParser {
   static loadFromFile(filePath: string): Scenario {
     try {
       const abs = path.resolve(filePath);
-      const data = yaml.load(fs.readFileSync(abs, 'utf8')) as any;
-      return this.parseScenario(data);
+      const ctx: LoadContext = { locations: new WeakMap(), blocks: new Map(), loaded: new Set() };
+      const data = this.loadDocument(abs, ctx, []);
+      if (Array.isArray(data.steps)) data.steps = this.expandSteps(data.steps, ctx, []);
+      this.resolveFixtures([...(Array.isArray(data.config?.mocks) ? data.config.mocks : []), ...(data.steps || [])], ctx, abs);
+      return this.parseScenario(data, path.dirname(abs));
     } catch (e) {
       throw new Error(`Failed to load scenario: ${(e as Error).message}`);
     }
   }
 
-  private static parseScenario(data: any): Scenario {
+  /**
+   * Name and tags of a scenario file, read without expanding or validating
+   * it - enough to filter files with --tags/--grep before loading them
+   */
+  static readHeader(filePath: string): Pick<Scenario, 'name' | 'tags'> {
+    const data = yaml.load(fs.readFileSync(filePath, 'utf8')) as any;
+    if (!data || typeof data !== 'object') throw new Error(`${this.displayPath(path.resolve(filePath))}: expected a YAML mapping`);
+    return { name: String(data.name ?? ''), tags: this.parseTags(data.tags) };
+  }
+
+  /**
+   * Find runnable scenario files under a directory. YAML files without a
+   * top-level `steps` list (e.g. shared `define:` libraries) are skipped.
+   */
+  static findScenarioFiles(dir: string): string[] {
+    const files: string[] = [];
+    const walk = (d: string) => {
+      for (const entry of fs.readdirSync(d, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+        const full = path.join(d, entry.name);
+        if (entry.isDirectory()) { if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) walk(full); continue; }
+        if (!/\.ya?ml$/i.test(entry.name)) continue;
+        try {
+          const data = yaml.load(fs.readFileSync(full, 'utf8')) as any;
+          if (data && Array.isArray(data.steps)) files.push(full);
+        } catch {
+          files.push(full); // let loadFromFile report the syntax error
+        }
+      }
+    };
+    walk(path.resolve(dir));
+    return files;
+  }
+
+  /**
+   * Read a YAML file, recording the source line of every mapping/sequence,
+   * then register its `include:` files and `define:` blocks.
+   */
+  private static loadDocument(file: string, ctx: LoadContext, includeStack: string[]): any {
+    ctx.loaded.add(file);
+    const open: number[] = [];
+    const data = yaml.load(fs.readFileSync(file, 'utf8'), {
+      filename: file,
+      listener: (event, state) => {
+        if (event === 'open') { open.push(state.line); return; }
+        const line = open.pop();
+        if (state.result && typeof state.result === 'object' && line !== undefined) {
+          ctx.locations.set(state.result, { file, line: line + 1 });
+        }
+      },
+    }) as any;
+    if (!data || typeof data !== 'object') throw new Error(`${this.displayPath(file)}: expected a YAML mapping`);
+
+    if (data.include !== undefined) {
+      const includes = Array.isArray(data.include) ? data.include : [data.include];
+      const at = this.locate(ctx, data.include, { file, line: 1 });
+      for (const inc of includes) {
+        if (typeof inc !== 'string') throw new Error(`${this.formatLocation(at)}: include entries must be file paths`);
+        const target = path.resolve(path.dirname(file), inc);
+        if (!fs.existsSync(target)) throw new Error(`${this.formatLocation(at)}: included file not found: ${inc}`);
+        const stack = [...includeStack, file];
+        if (stack.includes(target)) {
+          const chain = [...stack, target].map(f => this.displayPath(f)).join(' -> ');
+          throw new Error(`${this.formatLocation(at)}: include cycle detected: ${chain}`);
+        }
+        // A file reached through two different includes only registers its blocks once
+        if (!ctx.loaded.has(target)) this.loadDocument(target, ctx, stack);
+      }
+    }
+
+    if (data.define !== undefined) {
+      if (typeof data.define !== 'object' || Array.isArray(data.define)) {
+        throw new Error(`${this.formatLocation(this.locate(ctx, data.define, { file, line: 1 }))}: "define" must map block names to blocks`);
+      }
+      for (const [name, def] of Object.entries<any>(data.define)) {
+        this.registerBlock(name, def, ctx, this.locate(ctx, def, this.locate(ctx, data.define, { file, line: 1 })));
+      }
+    }
+    return data;
+  }
+
+  private static registerBlock(name: string, def: any, ctx: LoadContext, location: SourceLocation): void {
+    const existing = ctx.blocks.get(name);
+    if (existing) {
+      throw new Error(`${this.formatLocation(location)}: block "${name}" is already defined at ${this.formatLocation(existing.location)}`);
+    }
+    const steps = Array.isArray(def) ? def : def?.steps;
+    if (!Array.isArray(steps) || !steps.length) {
+      throw new Error(`${this.formatLocation(location)}: block "${name}" needs a non-empty "steps" list`);
+    }
+    // params: either a list of required names or a map of name -> default (null/~ = required)
+    const params: Record<string, any> = {};
+    const required: string[] = [];
+    const declared = Array.isArray(def) ? undefined : def.params;
+    if (Array.isArray(declared)) {
+      declared.forEach((p: string) => required.push(p));
+    } else if (declared && typeof declared === 'object') {
+      for (const [p, dflt] of Object.entries(declared)) {
+        if (dflt === null || dflt === undefined) required.push(p);
+        else params[p] = dflt;
+      }
+    }
+    ctx.blocks.set(name, { name, params, required, steps, location });
+  }
+
+  /**
+   * Replace `use:` steps with the referenced block's steps, binding `with:` parameters.
+   * Nested step lists (if then/else, repeat/for_each steps) are expanded too.
+   */
+  private static expandSteps(steps: any[], ctx: LoadContext, useStack: string[]): any[] {
+    const out: any[] = [];
+    for (const step of steps) {
+      if (!step || typeof step !== 'object' || step.use === undefined) { out.push(this.expandNested(step, ctx, useStack)); continue; }
+      const at = this.formatLocation(this.locate(ctx, step, { file: '<unknown>', line: 0 }));
+      const block = ctx.blocks.get(step.use);
+      if (!block) {
+        const known = [...ctx.blocks.keys()];
+        throw new Error(`${at}: unknown block "${step.use}"${known.length ? ` (defined: ${known.join(', ')})` : ''}`);
+      }
+      if (useStack.includes(block.name)) {
+        throw new Error(`${at}: block cycle detected: ${[...useStack, block.name].join(' -> ')}`);
+      }
+      const args = step.with || {};
+      const accepted = [...block.required, ...Object.keys(block.params)];
+      const unknown = Object.keys(args).filter(k => !accepted.includes(k));
+      if (unknown.length) throw new Error(`${at}: unknown parameter(s) for block "${block.name}": ${unknown.join(', ')}`);
+      const missing = block.required.filter(p => args[p] === undefined);
+      if (missing.length) throw new Error(`${at}: missing parameter(s) for block "${block.name}": ${missing.join(', ')}`);
+      const bound = this.bindParams(block.steps, { ...block.params, ...args }, ctx);
+      out.push(...this.expandSteps(bound, ctx, [...useStack, block.name]));
+    }
+    return out;
+  }
+
+  /**
+   * Make mock `fixture` paths absolute, relative to the file each mock or
+   * step was written in (an included block's fixtures sit next to it)
+   */
+  private static resolveFixtures(nodes: any[], ctx: LoadContext, file: string): void {
+    for (const node of nodes) {
+      if (!node || typeof node !== 'object') continue;
+      if (typeof node.fixture === 'string' && !node.fixture.startsWith('{{')) {
+        node.fixture = path.resolve(path.dirname(this.locate(ctx, node, { file, line: 0 }).file), node.fixture);
+      }
+      for (const key of ['then', 'else', 'steps']) {
+        if (Array.isArray(node[key])) this.resolveFixtures(node[key], ctx, file);
+      }
+    }
+  }
+
+  private static expandNested(step: any, ctx: LoadContext, useStack: string[]): any {
+    if (!step || typeof step !== 'object' || !['then', 'else', 'steps'].some(key => Array.isArray(step[key]))) return step;
+    const out = { ...step };
+    for (const key of ['then', 'else', 'steps']) {
+      if (Array.isArray(step[key])) out[key] = this.expandSteps(step[key], ctx, useStack);
+    }
+    const loc = ctx.locations.get(step);
+    if (loc) ctx.locations.set(out, loc);
+    return out;
+  }
+
+  /**
+   * Substitute `{{param}}` / `{{param.field}}` references with block arguments
+   * or loop variables. Other `{{...}}` expressions (faker, credentials,
+   * variables) are left untouched.
+   */
+  static bindParams(value: any, params: Record<string, any>, ctx?: LoadContext): any {
+    if (typeof value === 'string') {
+      return this.replaceTemplates(value, expr => {
+        const ref = expr.match(/^(\w+)((?:\.\w+)*)$/);
+        if (!ref || !(ref[1] in params)) return undefined;
+        return ref[2] ? this.getNestedValue(params[ref[1]], ref[2].slice(1)) : params[ref[1]];
+      }, true);
+    }
+    if (Array.isArray(value)) return value.map(v => this.bindParams(v, params, ctx));
+    if (value && typeof value === 'object') {
+      const obj: any = {};
+      for (const [k, v] of Object.entries(value)) obj[k] = this.bindParams(v, params, ctx);
+      const loc = ctx?.locations.get(value);
+      if (loc) ctx!.locations.set(obj, loc);
+      return obj;
+    }
+    return value;
+  }
+
+  /**
+   * Replace each `{{expr}}` in `text` with resolve(expr); unresolved references
+   * stay as written. With `keepType`, a string that is a single reference
+   * becomes the value itself (a list, an object, a number).
+   */
+  private static replaceTemplates(text: string, resolve: (expr: string) => any, keepType = false): any {
+    const whole = text.match(/^\{\{([^}]+)\}\}$/);
+    if (keepType && whole) {
+      const value = resolve(whole[1].trim());
+      if (value !== undefined) return value;
+    }
+    return text.replace(/\{\{([^}]+)\}\}/g, (match, expr) => {
+      const value = resolve(expr.trim());
+      return value === undefined ? match : String(value);
+    });
+  }
+
+  private static locate(ctx: LoadContext, node: any, fallback: SourceLocation): SourceLocation {
+    return (node && typeof node === 'object' && ctx.locations.get(node)) || fallback;
+  }
+
+  private static formatLocation(loc: SourceLocation): string {
+    return `${this.displayPath(loc.file)}:${loc.line}`;
+  }
+
+  private static displayPath(file: string): string {
+    const rel = path.relative(process.cwd(), file);
+    return rel && !rel.startsWith('..') ? rel : file;
+  }
+
+  /**
+   * `baseDir` is the scenario file's directory: relative paths in config resolve against it
+   */
+  private static parseScenario(data: any, baseDir?: string): Scenario {
     if (!data.name) throw new Error('Missing "name" field');
     if (!data.url) throw new Error('Missing "url" field');
     if (!Array.isArray(data.steps) || !data.steps.length) throw new Error('Missing "steps" field');
+    if (data.config?.browser && !BROWSER_NAMES.includes(data.config.browser)) {
+      throw new Error(`Invalid config.browser "${data.config.browser}" (use ${BROWSER_NAMES.join(', ')})`);
+    }
+    if (data.config?.wcagLevel !== undefined && !WCAG_LEVELS.includes(data.config.wcagLevel)) {
+      throw new Error(`Invalid config.wcagLevel "${data.config.wcagLevel}" (use ${WCAG_LEVELS.join(', ')})`);
+    }
+    const ignoreConsoleErrors = data.config?.ignoreConsoleErrors === undefined ? undefined
+      : (Array.isArray(data.config.ignoreConsoleErrors) ? data.config.ignoreConsoleErrors : [data.config.ignoreConsoleErrors]).map(String);
+    for (const pattern of ignoreConsoleErrors || []) {
+      try { new RegExp(pattern); }
+      catch (e) { throw new Error(`Invalid config.ignoreConsoleErrors pattern "${pattern}": ${(e as Error).message}`); }
+    }
+    if (data.config?.mocks !== undefined && !Array.isArray(data.config.mocks)) {
+      throw new Error('config.mocks must be a list of route mocks');
+    }
+    if (data.config?.matrix !== undefined && !Array.isArray(data.config.matrix)) {
+      throw new Error('config.matrix must be a list of devices, "WIDTHxHEIGHT" sizes or emulation objects');
+    }
+    const emulation = data.config ? parseEmulationProfile(data.config) : {};
     return {
       name: data.name,
       description: data.description,
       url: data.url,
       credentials: data.credentials,
       variables: data.variables || {},
-      steps: data.steps,
+      tags: this.parseTags(data.tags),
+      steps: this.normalizeSelectors(data.steps),
       config: {
+        browser: data.config?.browser,
         headless: data.config?.headless !== false,
-        viewport: data.config?.viewport,
+        ...emulation,
+        matrix: data.config?.matrix?.map((entry: any, i: number) => {
+          try { return parseEmulationProfile(entry); }
+          catch (e) { throw new Error(`config.matrix[${i}]: ${(e as Error).message}`); }
+        }),
         timeout: data.config?.timeout || 30000,
         slowMo: data.config?.slowMo || 0,
         screenshotOnError: data.config?.screenshotOnError !== false,
@@ -78,10 +349,54 @@ export class ScenarioParser {
         stopOnFirstFailure: data.config?.stopOnFirstFailure !== false,
         retryFailedSteps: data.config?.retryFailedSteps || 0,
         detectValidationErrors: data.config?.detectValidationErrors !== false,
+        mocks: data.config?.mocks,
+        networkCapture: data.config?.networkCapture,
+        ignoreConsoleErrors,
+        consoleErrorThresholds: data.config?.consoleErrorThresholds,
+        baselineDir: baseDir ? path.resolve(baseDir, data.config?.baselineDir || '__baselines__') : data.config?.baselineDir,
+        visualThreshold: data.config?.visualThreshold,
+        wcagLevel: data.config?.wcagLevel,
+        video: parseArtifactMode(data.config?.video, 'config.video'),
+        trace: parseArtifactMode(data.config?.trace, 'config.trace'),
       },
     };
   }
 
+  private static parseTags(tags: any): string[] {
+    return tags === undefined || tags === null ? [] : (Array.isArray(tags) ? tags : [tags]).map(String);
+  }
+
+  /**
+   * Scenario as YAML (export-session, record), with an optional leading comment
+   */
+  static toYaml(scenario: Scenario, comment?: string): string {
+    const header = comment ? comment.split('\n').map(line => `# ${line}`).join('\n') + '\n' : '';
+    return header + yaml.dump(scenario, { lineWidth: -1, noRefs: true, quotingType: '"' });
+  }
+
+  /**
+   * `selector: [a, b, ...]` -> selector a with fallbacks b, ... (nested steps included)
+   */
+  private static normalizeSelectors(steps: any[]): any[] {
+    return steps.map(step => {
+      if (!step || typeof step !== 'object') return step;
+      const out = { ...step };
+      if (Array.isArray(out.selector)) {
+        const [first, ...rest] = out.selector;
+        out.fallbacks = [...rest, ...(out.fallbacks || [])];
+        out.selector = first === undefined ? undefined : candidateSelector(first);
+      } else if (out.selector === undefined && Array.isArray(out.fallbacks) && out.fallbacks.length) {
+        const [first, ...rest] = out.fallbacks;
+        out.selector = candidateSelector(first);
+        out.fallbacks = rest;
+      }
+      for (const key of ['then', 'else', 'steps']) {
+        if (Array.isArray(out[key])) out[key] = this.normalizeSelectors(out[key]);
+      }
+      return out;
+    });
+  }
+
   static substituteVariables(scenario: Scenario): Scenario {
     const vars: Record<string, any> = {
       url: scenario.url,
@@ -94,8 +409,7 @@ export class ScenarioParser {
 
     const substitute = (value: any): any => {
       if (typeof value === 'string') {
-        return value.replace(/\{\{([^}]+)\}\}/g, (match, expr) => {
-          const trimmed = expr.trim();
+        return this.replaceTemplates(value, trimmed => {
           const funcMatch = trimmed.match(/^(\w+(?:\.\w+)*)\(([^)]*)\)$/);
           if (funcMatch) {
             const [, funcPath, argsStr] = funcMatch;
@@ -109,18 +423,27 @@ export class ScenarioParser {
                 if (t === 'false') return false;
                 return t.replace(/^['"]|['"]$/g, '');
               }) : [];
-              try { return fn(...args); } catch { return match; }
+              try { return fn(...args); } catch { return undefined; }
             }
           }
           const result = this.getNestedValue(vars, trimmed);
-          if (typeof result === 'function') try { return result(); } catch { return match; }
-          return result !== undefined ? result : match;
+          if (typeof result === 'function') try { return result(); } catch { return undefined; }
+          return result;
         });
       }
       if (Array.isArray(value)) return value.map(substitute);
       if (value && typeof value === 'object') {
         const obj: any = {};
-        for (const [k, v] of Object.entries(value)) obj[k] = substitute(v);
+        for (const [k, v] of Object.entries(value)) {
+          // for_each items may name a list variable; keep it as a list instead of stringifying it
+          if (k === 'items' && value.action === 'for_each' && typeof v === 'string') {
+            const name = v.replace(/^\{\{\s*|\s*\}\}$/g, '');
+            const list = this.getNestedValue(vars, name);
+            obj[k] = Array.isArray(list) ? list : substitute(v);
+          } else {
+            obj[k] = substitute(v);
+          }
+        }
         return obj;
       }
       return value;
@@ -135,20 +458,80 @@ export class ScenarioParser {
 
   static validate(scenario: Scenario): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
-    scenario.steps.forEach((step, i) => {
-      const n = i + 1;
+    (scenario.config?.mocks || []).forEach((mock, i) => {
+      if (!mock?.url) errors.push(`config.mocks[${i}]: mock needs url`);
+    });
+    this.validateSteps(scenario.steps, '', errors);
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Required-field checks for steps outside a scenario (e.g. AI actions),
+   * with errors prefixed like "Step <prefix>1: ..."
+   */
+  static validateActions(actions: Action[], prefix: string = ''): string[] {
+    const errors: string[] = [];
+    this.validateSteps(actions, prefix, errors);
+    return errors;
+  }
+
+  private static validateSteps(steps: Action[], prefix: string, errors: string[]): void {
+    steps.forEach((step, i) => {
+      const n = `${prefix}${i + 1}`;
       if (!step.action) { errors.push(`Step ${n}: missing action`); return; }
+      if (step.fallbacks !== undefined) {
+        if (!Array.isArray(step.fallbacks)) errors.push(`Step ${n}: fallbacks must be a list`);
+        else step.fallbacks.forEach(candidate => {
+          try { candidateSelector(candidate); } catch (e) { errors.push(`Step ${n}: ${(e as Error).message}`); }
+        });
+      }
+      if (step.element !== undefined && (typeof step.element !== 'string' || !step.element.trim())) errors.push(`Step ${n}: element must be a non-empty description`);
+      const target = step.selector || step.element;
       switch (step.action) {
         case 'navigate': if (!step.url) errors.push(`Step ${n}: navigate needs url`); break;
-        case 'click': case 'type': case 'hover': if (!step.selector) errors.push(`Step ${n}: ${step.action} needs selector`); break;
-        case 'select': if (!step.selector || !step.value) errors.push(`Step ${n}: select needs selector and value`); break;
-        case 'select_option': if (!step.selector && !step.dropdown) errors.push(`Step ${n}: select_option needs selector/dropdown`); if (!step.option && step.option_index === undefined) errors.push(`Step ${n}: select_option needs option/option_index`); break;
-        case 'fill_date': if (!step.selector) errors.push(`Step ${n}: fill_date needs selector`); if (!step.date && !step.value) errors.push(`Step ${n}: fill_date needs date/value`); break;
+        case 'click': case 'type': case 'hover': if (!target) errors.push(`Step ${n}: ${step.action} needs selector or element`); break;
+        case 'select': if (!target || !step.value) errors.push(`Step ${n}: select needs selector/element and value`); break;
+        case 'select_option': if (!target && !step.dropdown) errors.push(`Step ${n}: select_option needs selector/element/dropdown`); if (!step.option && step.option_index === undefined) errors.push(`Step ${n}: select_option needs option/option_index`); break;
+        case 'fill_date': if (!target) errors.push(`Step ${n}: fill_date needs selector or element`); if (!step.date && !step.value) errors.push(`Step ${n}: fill_date needs date/value`); break;
         case 'wait': if (!step.duration && !step.selector) errors.push(`Step ${n}: wait needs duration or selector`); break;
-        case 'assert': if (!step.assert_type) errors.push(`Step ${n}: assert needs assert_type`); break;
+        case 'assert':
+          if (!step.assert_type) errors.push(`Step ${n}: assert needs assert_type`);
+          if (step.assert_type === 'screenshot_matches' && !step.name && !step.screenshot && !step.description) errors.push(`Step ${n}: screenshot_matches needs name, screenshot or description`);
+          if (step.mask !== undefined && !Array.isArray(step.mask)) errors.push(`Step ${n}: mask must be a list of selectors`);
+          if (step.wcag_level !== undefined && !WCAG_LEVELS.includes(step.wcag_level)) errors.push(`Step ${n}: wcag_level must be one of ${WCAG_LEVELS.join(', ')}`);
+          if (step.ignore_rules !== undefined && (!Array.isArray(step.ignore_rules) || step.ignore_rules.some(r => typeof r !== 'string'))) {
+            errors.push(`Step ${n}: ignore_rules must be a list of rule ids`);
+          }
+          if (step.min_severity !== undefined && !A11Y_SEVERITIES.includes(step.min_severity)) {
+            errors.push(`Step ${n}: min_severity must be one of ${A11Y_SEVERITIES.join(', ')}`);
+          }
+          break;
+        case 'screenshot':
+          if (step.mask !== undefined && !Array.isArray(step.mask)) errors.push(`Step ${n}: mask must be a list of selectors`);
+          if (step.name !== undefined && !String(step.name).trim()) errors.push(`Step ${n}: screenshot name must not be empty`);
+          break;
         case 'press_key': if (!step.key && !step.value) errors.push(`Step ${n}: press_key needs key/value`); break;
+        case 'mock_route': if (!step.url) errors.push(`Step ${n}: mock_route needs url`); break;
+        case 'if':
+          if (!step.when || (!step.when.condition && !step.when.assert_type)) errors.push(`Step ${n}: if needs when.condition or when.assert_type`);
+          if (!Array.isArray(step.then) || !step.then.length) errors.push(`Step ${n}: if needs then steps`);
+          else this.validateSteps(step.then, `${n}.then.`, errors);
+          if (step.else !== undefined) {
+            if (!Array.isArray(step.else)) errors.push(`Step ${n}: if else must be a list of steps`);
+            else this.validateSteps(step.else, `${n}.else.`, errors);
+          }
+          break;
+        case 'repeat':
+          if (!Number.isInteger(step.times) || step.times! < 1) errors.push(`Step ${n}: repeat needs times (positive integer)`);
+          if (!Array.isArray(step.steps) || !step.steps.length) errors.push(`Step ${n}: repeat needs steps`);
+          else this.validateSteps(step.steps, `${n}.`, errors);
+          break;
+        case 'for_each':
+          if (!Array.isArray(step.items)) errors.push(`Step ${n}: for_each needs items (list or list variable)`);
+          if (!Array.isArray(step.steps) || !step.steps.length) errors.push(`Step ${n}: for_each needs steps`);
+          else this.validateSteps(step.steps, `${n}.`, errors);
+          break;
       }
     });
-    return { valid: errors.length === 0, errors };
   }
 }
@@ -0,0 +1,29 @@
+import { Page } from 'playwright';
+
+export interface ScreenshotTarget {
+  selector?: string;   // Element screenshot (first match)
+  fullPage?: boolean;  // Ignored for element screenshots
+  mask?: string[];     // Selectors painted over
+  path?: string;
+  timeout?: number;
+  stable?: boolean;    // Disable animations and hide the caret (visual comparisons)
+}
+
+export async function takeScreenshot(page: Page, target: ScreenshotTarget = {}): Promise<Buffer> {
+  const options = {
+    path: target.path,
+    timeout: target.timeout,
+    mask: (target.mask || []).map(selector => page.locator(selector)),
+    ...(target.stable ? { animations: 'disabled' as const, caret: 'hide' as const } : {}),
+  };
+  return target.selector
+    ? page.locator(target.selector).first().screenshot(options)
+    : page.screenshot({ ...options, fullPage: target.fullPage });
+}
+
+/**
+ * File-safe form of a screenshot/baseline name ("Home Page" -> "home-page")
+ */
+export function screenshotFileName(name: string): string {
+  return name.toLowerCase().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
+}
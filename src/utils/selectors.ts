@@ -0,0 +1,16 @@
+import { SelectorCandidate } from '../types';
+
+/**
+ * Playwright selector string for a fallback candidate. Strings are used
+ * as-is; objects map to role/text/label/test-id/placeholder engines.
+ */
+export function candidateSelector(candidate: SelectorCandidate): string {
+  if (typeof candidate === 'string') return candidate;
+  const q = (value: string) => JSON.stringify(value);
+  if (candidate.test_id) return `[data-testid=${q(candidate.test_id)}]`;
+  if (candidate.role) return `role=${candidate.role}${candidate.name ? `[name=${q(candidate.name)}${candidate.exact ? ' s' : ''}]` : ''}`;
+  if (candidate.label) return `internal:label=${q(candidate.label)}${candidate.exact ? 's' : 'i'}`;
+  if (candidate.placeholder) return `[placeholder=${q(candidate.placeholder)}]`;
+  if (candidate.text) return candidate.exact ? `text=${q(candidate.text)}` : `text=${candidate.text}`;
+  throw new Error(`Selector fallback needs one of role, text, label, test_id, placeholder: ${JSON.stringify(candidate)}`);
+}
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Scenario, Action } from '../types';
+import { ExplorationSession, AIObservation } from '../types/ai';
+import { ScenarioParser } from './scenario-parser';
+
+export interface SessionExportOptions {
+  name?: string;          // Scenario name (default: the exploration goal)
+  tags?: string[];
+  assertFinalState?: boolean; // Append url/title/console assertions for the last observation (default true)
+}
+
+/**
+ * Turns an exploration session (session.json) into a replayable scenario:
+ * the actions that ran, without consecutive repeats, with url waits where
+ * the page changed and assertions for where the exploration ended.
+ */
+export class SessionExporter {
+  static loadSession(sessionDir: string): ExplorationSession {
+    const file = path.join(sessionDir, 'session.json');
+    if (!fs.existsSync(file)) throw new Error(`No session.json in ${sessionDir}`);
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  static toScenario(session: ExplorationSession, options: SessionExportOptions = {}): Scenario {
+    if (!session.observations?.length) throw new Error(`Session ${session.sessionId} has no observations`);
+    const last = session.observations[session.observations.length - 1];
+    // Older sessions only keep the (trimmed) history in each observation
+    const executed: Action[] = session.executedActions || last.previousActions.map(a => ({ ...a } as Action));
+    const url = session.url || executed.find(a => a.action === 'navigate')?.url || session.observations[0].currentUrl;
+    const credentials = session.goal.credentials;
+
+    const steps = this.dropRepeats(this.withUrlWaits(executed, session.observations))
+      .map(action => this.cleanAction(action, url, credentials));
+    if (options.assertFinalState !== false) steps.push(...this.finalAssertions(session.observations));
+
+    return {
+      name: options.name || session.goal.objective,
+      description: `Exported from exploration ${session.sessionId} (${session.status})`,
+      url,
+      ...(credentials ? { credentials } : {}),
+      tags: options.tags || ['exported'],
+      steps,
+    };
+  }
+
+  /**
+   * Observation k saw the first `previousActions.length` actions, so each
+   * batch is the slice between two observations. When the URL changed
+   * across a batch, its last action waits for the new path.
+   */
+  private static withUrlWaits(executed: Action[], observations: AIObservation[]): Action[] {
+    const actions = executed.map(a => ({ ...a }));
+    for (let k = 1; k < observations.length; k++) {
+      const end = Math.min(observations[k].previousActions.length, actions.length);
+      const before = observations[k - 1].currentUrl;
+      const after = observations[k].currentUrl;
+      const action = actions[end - 1];
+      if (!action || before === after || action.action === 'navigate' || action.wait_for) continue;
+      const target = this.urlPath(after);
+      if (target) action.wait_for = { condition: 'url_contains', value: target };
+    }
+    return actions;
+  }
+
+  /**
+   * Consecutive identical actions (the AI retrying) collapse into the last one
+   */
+  private static dropRepeats(actions: Action[]): Action[] {
+    const key = (a: Action) => JSON.stringify([a.action, a.selector, a.element, a.value, a.url, a.key, a.option]);
+    return actions.filter((a, i) => i === actions.length - 1 || key(a) !== key(actions[i + 1]));
+  }
+
+  private static cleanAction(action: Action, url: string, credentials?: { username: string; password: string }): Action {
+    const result: Record<string, any> = {};
+    for (const [k, v] of Object.entries(action)) {
+      if (v !== undefined && v !== null && v !== '') result[k] = v;
+    }
+    if (result.action === 'navigate' && result.url === url) result.url = '{{url}}';
+    else if (result.action === 'navigate' && typeof result.url === 'string' && result.url.startsWith(url.replace(/\/$/, ''))) {
+      result.url = `{{url}}${result.url.slice(url.replace(/\/$/, '').length)}`;
+    }
+    if (credentials && typeof result.value === 'string') {
+      if (result.value === credentials.password) result.value = '{{credentials.password}}';
+      else if (result.value === credentials.username) result.value = '{{credentials.username}}';
+    }
+    return result as Action;
+  }
+
+  private static finalAssertions(observations: AIObservation[]): Action[] {
+    const last = observations[observations.length - 1];
+    const steps: Action[] = [];
+    const urlPath = this.urlPath(last.currentUrl);
+    if (urlPath) steps.push({ action: 'assert', assert_type: 'url_contains', expected: urlPath, description: 'Ends on the same page as the exploration' });
+    if (last.domState.title) steps.push({ action: 'assert', assert_type: 'title_contains', expected: last.domState.title, description: 'Final page title' });
+    if (!observations.some(o => o.newErrors.consoleErrors > 0)) {
+      steps.push({ action: 'assert', assert_type: 'no_console_errors', scope: 'scenario', description: 'No console errors (none seen while exploring)' });
+    }
+    return steps;
+  }
+
+  private static urlPath(url: string): string | undefined {
+    try {
+      const { pathname, search } = new URL(url);
+      const result = pathname + search;
+      return result === '/' ? undefined : result;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { validateAIAction } from '../src/utils/action-validator';
+
+const validate = (value: unknown) => validateAIAction(JSON.stringify(value));
+
+test('accepts a single action and unwraps the transport envelope', () => {
+  const answer = { decision: 'continue', reasoning: 'Open the menu', action: { action: 'click', selector: '#menu' } };
+  assert.deepEqual(validate(answer), { action: answer, errors: [] });
+  assert.deepEqual(validate({ type: 'action', action: answer }).action, answer);
+});
+
+test('accepts a batch of actions and a bug report', () => {
+  const result = validate({
+    decision: 'fix_bug',
+    reasoning: 'Save fails',
+    actions: [{ action: 'type', selector: '#name', value: 'x' }, { action: 'press_key', value: 'Enter' }],
+    stopOnError: true,
+    concerns: ['500 from /api/save'],
+    bugReport: { severity: 'high', type: 'network_error', description: 'Save returns 500' },
+  });
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.action!.actions!.length, 2);
+});
+
+test('rejects text that is not a JSON object', () => {
+  assert.match(validateAIAction('{bad').errors[0], /^Not valid JSON: /);
+  assert.deepEqual(validateAIAction('[1]').errors, ['Response must be a JSON object with decision and reasoning']);
+  assert.deepEqual(validateAIAction('null').errors, ['Response must be a JSON object with decision and reasoning']);
+});
+
+test('reports every envelope problem at once', () => {
+  assert.deepEqual(validate({ decision: 'go', action: {}, actions: [] }).errors, [
+    'decision must be one of continue|fix_bug|goal_achieved|stuck|abort (got "go")',
+    'reasoning must be a string',
+    'use either action or actions, not both',
+    'actions[0]: unknown action undefined (known: navigate, click, type, select, select_option, fill_date, upload, wait, wait_for, screenshot, scroll, hover, verify, assert, check_form, press_key, fill_field, auto_fill_form, toggle, clear, focus, blur, mock_route, unmock_route)',
+  ]);
+});
+
+test('rejects control flow and reuses the scenario step checks', () => {
+  const result = validate({
+    decision: 'continue',
+    reasoning: 'r',
+    actions: [{ action: 'repeat', times: 2, steps: [] }, { action: 'click' }, 'click'],
+  });
+  assert.deepEqual(result.errors, [
+    'actions[0]: repeat is not supported while exploring - send the actions it would run',
+    'actions[1]: click needs selector or element',
+    'actions[2] must be an object',
+  ]);
+  assert.equal(result.action, undefined);
+});
+
+test('checks stopOnError, concerns and the bug report fields', () => {
+  const result = validate({
+    decision: 'continue',
+    reasoning: 'r',
+    stopOnError: 'yes',
+    concerns: ['ok', 1],
+    bugReport: { severity: 'urgent', type: 'typo' },
+  });
+  assert.deepEqual(result.errors, [
+    'stopOnError must be true or false',
+    'concerns must be a list of strings',
+    'bugReport.severity must be one of low|medium|high|critical',
+    'bugReport.type must be one of console_error|network_error|visual_bug|performance|crash',
+    'bugReport.description must be a string',
+  ]);
+});
@@ -0,0 +1,178 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { AIObservation } from '../src/types/ai';
+import { FileTransport } from '../src/core/ai-transports/file-transport';
+import { HttpTransport } from '../src/core/ai-transports/http-transport';
+import { StdioTransport } from '../src/core/ai-transports/stdio-transport';
+import { PolicyTransport, createTransport } from '../src/core/ai-transports';
+
+const observation = { stepNumber: 1, goal: 'Sign up', currentUrl: 'http://localhost/' } as AIObservation;
+const action = JSON.stringify({ decision: 'continue', reasoning: 'r', action: { action: 'click', selector: '#go' } });
+
+// Silences console.log for transports that announce themselves
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+  }
+}
+
+function request(port: number, method: string, pathname: string, body?: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, method, path: pathname }, (res) => {
+      let text = '';
+      res.on('data', (chunk) => (text += chunk));
+      res.on('end', () => resolve({ status: res.statusCode!, body: text }));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+test('createTransport names the available transports when one is unknown', () => {
+  assert.throws(() => createTransport('carrier-pigeon', { sessionDir: '.' }),
+    { message: 'Unknown AI transport: carrier-pigeon. Available: file, stdio, http' });
+});
+
+test('file transport writes the observation and consumes action.json', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fe-pilot-'));
+  try {
+    const transport = new FileTransport({ sessionDir: dir });
+    await quietly(() => transport.send(observation));
+    assert.deepEqual(JSON.parse(fs.readFileSync(path.join(dir, 'observation.json'), 'utf8')), observation);
+
+    fs.writeFileSync(path.join(dir, 'action.json'), action);
+    assert.equal(await transport.receive(5000), action);
+    assert.equal(fs.existsSync(path.join(dir, 'action.json')), false);
+
+    // Half-written JSON gets one more poll before it is handed over as is
+    fs.writeFileSync(path.join(dir, 'action.json'), '{"decision":');
+    assert.equal(await transport.receive(5000), '{"decision":');
+
+    await assert.rejects(transport.receive(10), /^Error: AI response timeout after 0.01s. No action.json created./);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('policy transport answers each observation once with the policy decision', async () => {
+  const decided: AIObservation[] = [];
+  const transport = new PolicyTransport({
+    name: 'fixed',
+    decide: (obs) => { decided.push(obs); return JSON.parse(action); },
+    summary: () => ['done'],
+  });
+  assert.equal(transport.name, 'policy:fixed');
+  await assert.rejects(transport.receive(), { message: 'Policy fixed has no observation to answer' });
+  await transport.send(observation);
+  assert.deepEqual(decided, [observation]);
+  assert.equal(await transport.receive(), action);
+  await assert.rejects(transport.receive(), { message: 'Policy fixed has no observation to answer' });
+  assert.throws(() => transport.rejectAction(['click needs selector or element']),
+    { message: 'Policy fixed produced an invalid action: click needs selector or element' });
+});
+
+test('stdio transport writes JSON line envelopes and reads one action per line', async () => {
+  const stdin = new PassThrough();
+  const written: string[] = [];
+  const realStdin = Object.getOwnPropertyDescriptor(process, 'stdin')!;
+  const write = process.stdout.write;
+  const error = console.error;
+  Object.defineProperty(process, 'stdin', { value: stdin, configurable: true });
+  // The test runner reports over stdout too, as buffers; the transport writes strings
+  process.stdout.write = ((chunk: string | Buffer, ...rest: any[]) =>
+    typeof chunk === 'string' ? written.push(chunk) > 0 : write.call(process.stdout, chunk, ...rest)) as any;
+  console.error = () => {};
+  try {
+    const transport = new StdioTransport({ sessionDir: '.' });
+    await transport.open();
+    await transport.send(observation);
+    stdin.write(`\n${action}\n{"type":"action","action":{}}\n`);
+    assert.equal(await transport.receive(1000), action);
+    assert.equal(await transport.receive(1000), '{"type":"action","action":{}}');
+    await assert.rejects(transport.receive(10), { message: 'AI response timeout after 0.01s. No action line on stdin.' });
+
+    transport.rejectAction(['reasoning must be a string']);
+    transport.reportBug({ severity: 'high' });
+    const pending = transport.receive(1000);
+    stdin.end();
+    await assert.rejects(pending, { message: 'AI closed stdin before sending an action' });
+    await transport.close('COMPLETED');
+  } finally {
+    process.stdout.write = write;
+    console.error = error;
+    Object.defineProperty(process, 'stdin', realStdin);
+  }
+  assert.deepEqual(written.map(line => JSON.parse(line)), [
+    { type: 'observation', observation },
+    { type: 'action_error', errors: ['reasoning must be a string'] },
+    { type: 'bug_report', bugReport: { severity: 'high' } },
+    { type: 'end', status: 'COMPLETED' },
+  ]);
+  assert.ok(written.every(line => line.endsWith('\n') && !line.slice(0, -1).includes('\n')));
+});
+
+test('http transport hands a posted action to the waiting explorer', async () => {
+  const transport = new HttpTransport({ sessionDir: '.', port: 0 });
+  await quietly(() => transport.open());
+  const port = (transport as any).port;
+  try {
+    assert.equal((await request(port, 'GET', '/observation')).status, 204);
+    assert.deepEqual(await request(port, 'POST', '/action', action), { status: 409, body: '{"error":"No observation is waiting for an action"}' });
+
+    await transport.send(observation);
+    assert.deepEqual(JSON.parse((await request(port, 'GET', '/observation')).body), observation);
+    const received = transport.receive(5000);
+    assert.deepEqual(await request(port, 'POST', '/action', action), { status: 202, body: '{"accepted":true}' });
+    assert.equal(await received, action);
+    assert.equal((await request(port, 'GET', '/observation')).status, 204);
+
+    // A rejected action puts the observation back up with the reasons
+    transport.rejectAction(['reasoning must be a string']);
+    assert.deepEqual(JSON.parse((await request(port, 'GET', '/status')).body),
+      { status: 'WAITING_FOR_AI', step: 1, waiting: false, errors: ['reasoning must be a string'] });
+  } finally {
+    await transport.close('COMPLETED');
+  }
+});
+
+test('http transport refuses malformed actions and survives handler errors', async () => {
+  const transport = new HttpTransport({ sessionDir: '.', port: 0 });
+  await quietly(() => transport.open());
+  const port = (transport as any).port;
+  const logs: string[] = [];
+  const log = console.log;
+  console.log = (...args: unknown[]) => { logs.push(args.join(' ')); };
+  try {
+    await transport.send(observation);
+    const malformed = await request(port, 'POST', '/action', '{"decision":');
+    assert.equal(malformed.status, 400);
+    assert.match(JSON.parse(malformed.body).error, /JSON/);
+
+    // An unparseable request URL throws inside the handler: answered, not fatal
+    const broken = await request(port, 'GET', '//');
+    assert.deepEqual(broken, { status: 400, body: '{"error":"Invalid URL"}' });
+    assert.deepEqual(logs, ['⚠️  AI transport: GET // failed: Invalid URL']);
+
+    // A client that goes away mid-body does not take the server down either
+    await new Promise<void>((resolve) => {
+      const req = http.request({ host: '127.0.0.1', port, method: 'POST', path: '/action', headers: { 'Content-Length': '100' } });
+      req.on('error', () => resolve());
+      req.write('{"decision"', () => setTimeout(() => { req.destroy(); resolve(); }, 50));
+    });
+    const received = transport.receive(5000);
+    assert.equal((await request(port, 'POST', '/action', action)).status, 202);
+    assert.equal(await received, action);
+  } finally {
+    console.log = log;
+    await transport.close('COMPLETED');
+  }
+});
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { keepArtifact, parseArtifactMode } from '../src/utils/artifacts';
+
+test('parseArtifactMode accepts modes and booleans', () => {
+  assert.equal(parseArtifactMode(undefined, 'config.video'), 'off');
+  assert.equal(parseArtifactMode(false, 'config.video'), 'off');
+  assert.equal(parseArtifactMode(true, 'config.video'), 'on');
+  assert.equal(parseArtifactMode('retain-on-failure', 'config.trace'), 'retain-on-failure');
+});
+
+test('parseArtifactMode names the field in its error', () => {
+  assert.throws(() => parseArtifactMode('always', 'config.trace'), {
+    message: 'config.trace must be one of off|on|retain-on-failure (got "always")',
+  });
+});
+
+test('keepArtifact keeps retain-on-failure artifacts only for failed runs', () => {
+  assert.equal(keepArtifact('on', false), true);
+  assert.equal(keepArtifact('retain-on-failure', false), false);
+  assert.equal(keepArtifact('retain-on-failure', true), true);
+  assert.equal(keepArtifact('off', true), false);
+  assert.equal(keepArtifact(undefined, true), false);
+});
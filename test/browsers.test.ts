@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseBrowserList } from '../src/utils/browsers';
+
+test('parseBrowserList accepts one engine, a list or "all"', () => {
+  assert.deepEqual(parseBrowserList('firefox'), ['firefox']);
+  assert.deepEqual(parseBrowserList(' WebKit , chromium,webkit '), ['webkit', 'chromium']);
+  assert.deepEqual(parseBrowserList(['chromium', 'firefox']), ['chromium', 'firefox']);
+  assert.deepEqual(parseBrowserList('all'), ['chromium', 'firefox', 'webkit']);
+  assert.deepEqual(parseBrowserList(undefined), []);
+});
+
+test('parseBrowserList names the unknown engines', () => {
+  assert.throws(() => parseBrowserList('chrome,edge,firefox'), {
+    message: 'Unknown browser(s): chrome, edge. Use chromium|firefox|webkit|all',
+  });
+});
@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AIAction, AIObservation } from '../src/types/ai';
+import { CrawlPolicy } from '../src/core/policies/crawl-policy';
+import { Explorer } from '../src/core/explorer';
+
+const ORIGIN = 'http://localhost:3000';
+
+function observation(path: string, dom: Partial<AIObservation['domState']> = {}, extra: Partial<AIObservation> = {}): AIObservation {
+  return {
+    stepNumber: 1, timestamp: 0, goal: 'Crawl', currentUrl: ORIGIN + path, screenshot: '',
+    domState: { title: '', buttons: [], inputs: [], links: [], visibleText: [], ...dom },
+    consoleLogs: [], networkRequests: [], newErrors: { consoleErrors: 0, networkErrors: 0 }, previousActions: [],
+    ...extra,
+  };
+}
+
+// Labels of everything the crawl clicks, in order, answering each decision from `pages`
+function crawl(policy: CrawlPolicy, pages: Record<string, Partial<AIObservation['domState']>>, start: string): { clicks: string[]; last: AIAction } {
+  const clicks: string[] = [];
+  let current = start;
+  let decision = policy.decide(observation(current, pages[current]));
+  while (decision.decision === 'continue') {
+    for (const action of decision.actions!) {
+      if (action.action === 'navigate') current = action.url!.slice(ORIGIN.length);
+      if (action.action === 'click') clicks.push(action.description!);
+    }
+    // Links lead to the page named after them, when there is one
+    const clicked = decision.actions![decision.actions!.length - 1];
+    const label = clicked.description?.match(/^Click link "(.*)"$/)?.[1];
+    if (label && pages[`/${label.toLowerCase()}`]) current = `/${label.toLowerCase()}`;
+    decision = policy.decide(observation(current, pages[current]));
+  }
+  return { clicks, last: decision };
+}
+
+test('only fillable inputs are filled, with credentials where they fit', () => {
+  const policy = new CrawlPolicy({ url: ORIGIN, credentials: { username: 'ada@example.com', password: 'hunter22' } });
+  const decision = policy.decide(observation('/', {
+    inputs: ['email', 'password', 'remember', 'csrf_token', 'Subscribe'],
+    fillable: ['email', 'password', 'x'.repeat(81)],
+  }));
+  assert.equal(decision.decision, 'continue');
+  assert.equal(decision.stopOnError, false);
+  assert.deepEqual(decision.actions!.map(a => [a.action, a.selector, a.value]), [
+    ['fill_field', '[placeholder="email"], [name="email"], [id="email"]', 'ada@example.com'],
+    ['fill_field', '[placeholder="password"], [name="password"], [id="password"]', 'hunter22'],
+  ]);
+
+  // Without a fillable list (older observers) every input is tried
+  const legacy = new CrawlPolicy({ url: ORIGIN }).decide(observation('/', { inputs: ['q'] }));
+  assert.deepEqual(legacy.actions!.map(a => a.selector), ['[placeholder="q"], [name="q"], [id="q"]']);
+});
+
+test('every link is queued once, buttons once per page, destructive ones never', () => {
+  const policy = new CrawlPolicy({ url: ORIGIN });
+  const { clicks, last } = crawl(policy, {
+    '/': { buttons: ['Save', 'Delete account'], links: ['About', 'Pricing'] },
+    '/about': { buttons: ['Save', 'Log out'], links: ['About', 'Pricing', 'Team'] },
+    '/pricing': { links: ['About', 'Pricing'] },
+  }, '/');
+  assert.deepEqual(clicks, [
+    'Click button "Save"', 'Click link "About"', 'Click link "Pricing"',
+    'Click button "Save"', 'Click link "Team"',
+  ]);
+  assert.equal(last.decision, 'goal_achieved');
+  assert.equal(last.reasoning, 'Crawl finished: 3 page(s), 5 interaction(s), 0 problem(s) found');
+  assert.deepEqual(policy.summary(), [
+    '🕸️  Crawl: 3 page(s), 5 interaction(s), 0 left unvisited',
+    '🚫 Not clicked (matches avoid pattern): Delete account, Log out',
+  ]);
+});
+
+test('interactions queued on another page go back there first', () => {
+  const policy = new CrawlPolicy({ url: ORIGIN });
+  policy.decide(observation('/', { buttons: ['Next', 'Help'] }));
+  const decision = policy.decide(observation('/step-2#top'));
+  assert.deepEqual(decision.actions!.map(a => a.action === 'navigate' ? a.url : a.selector), [
+    `${ORIGIN}/`, 'role=button[name="Help"]',
+  ]);
+  assert.equal(decision.stopOnError, true);
+});
+
+test('the crawl stops at an empty frontier, ignoring other origins and repeat visits', () => {
+  const policy = new CrawlPolicy({ url: ORIGIN });
+  assert.equal(policy.decide(observation('/', { links: ['Home'] })).decision, 'continue');
+  assert.equal(policy.decide(observation('/#home', { links: ['Home', 'Blog'] })).decision, 'goal_achieved');
+  const offsite = observation('', { links: ['Elsewhere'] }, { currentUrl: 'https://example.com/' });
+  assert.equal(policy.decide(offsite).decision, 'goal_achieved');
+  assert.match(policy.summary()[0], /^🕸️ {2}Crawl: 1 page\(s\), 1 interaction\(s\), 0 left unvisited$/);
+});
+
+test('pages past MAX_PAGES are counted but not explored', () => {
+  const policy = new CrawlPolicy({ url: ORIGIN });
+  for (let i = 0; i < 200; i++) assert.equal(policy.decide(observation(`/item/${i}`)).decision, 'goal_achieved');
+  assert.equal(policy.decide(observation('/item/200', { links: ['More'] })).decision, 'goal_achieved');
+  assert.deepEqual(policy.summary(), [
+    '🕸️  Crawl: 201 page(s), 0 interaction(s), 0 left unvisited',
+    '⏭️  Page limit (200) reached: 1 page(s) seen but not explored',
+  ]);
+});
+
+test('console errors and failed requests are concerns that fail the exploration', async () => {
+  const policy = new CrawlPolicy({ url: ORIGIN });
+  const decisions = [
+    policy.decide(observation('/', { links: ['Cart'] }, {
+      consoleLogs: [{ type: 'error', text: 'TypeError: cart is undefined', timestamp: 0 }, { type: 'log', text: 'ready', timestamp: 0 }],
+    })),
+    policy.decide(observation('/cart', {}, {
+      networkRequests: [{ url: `${ORIGIN}/api/cart`, method: 'GET', status: 500, duration: 3 }, { url: `${ORIGIN}/app.js`, method: 'GET', status: 200, duration: 1 }],
+    })),
+  ];
+  assert.deepEqual(decisions.map(d => d.concerns), [
+    ['Console error on /: TypeError: cart is undefined'],
+    [`500 GET ${ORIGIN}/api/cart (on /cart)`],
+  ]);
+  assert.equal(decisions[1].reasoning, 'Crawl finished: 2 page(s), 1 interaction(s), 2 problem(s) found');
+  assert.deepEqual(policy.summary().slice(1), [
+    '🐛 Problems (2):',
+    '   - Console error on /: TypeError: cart is undefined',
+    `   - 500 GET ${ORIGIN}/api/cart (on /cart)`,
+  ]);
+
+  // The explorer counts them as bugs, so `explore --policy` exits non-zero
+  const explorer = new Explorer({ policy: 'crawl' });
+  const session = { status: 'completed', actions: decisions, observations: [], bugsFound: 0, bugsFixed: 0 };
+  Object.assign(explorer as any, {
+    session,
+    communicator: { saveSession: () => {}, getSessionDir: () => 'session', close: async () => {} },
+  });
+  const log = console.log;
+  console.log = () => {};
+  try {
+    await (explorer as any).finish();
+  } finally {
+    console.log = log;
+  }
+  assert.equal(session.bugsFound, 2);
+});
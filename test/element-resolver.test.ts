@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ElementFacts, ElementResolver } from '../src/core/element-resolver';
+
+const el = (index: number, tag: string, role: string, name: string, extra: Partial<ElementFacts> = {}): ElementFacts => ({
+  index, tag, role, name, extra: '', ...extra,
+});
+
+test('parse splits roles, quoted text, words and container context', () => {
+  assert.deepEqual(ElementResolver.parse('the Save button in the profile card'), {
+    roles: ['button'], quoted: [], tokens: ['save'], context: ['profile', 'card'],
+  });
+  assert.deepEqual(ElementResolver.parse(`link "Terms & Conditions" near 'Sign up'`), {
+    roles: ['link'], quoted: ['terms & conditions', 'sign up'], tokens: [], context: [],
+  });
+  assert.deepEqual(ElementResolver.parse('email field').roles, ['textbox', 'searchbox', 'spinbutton', 'combobox']);
+  assert.deepEqual(ElementResolver.parse('tabs labelled settings within sidebar'), {
+    roles: ['tab'], quoted: [], tokens: ['settings'], context: ['sidebar'],
+  });
+});
+
+test('rank prefers the role and exact name the description asks for', () => {
+  const elements = [
+    el(0, 'a', 'link', 'Save'),
+    el(1, 'button', 'button', 'Save draft'),
+    el(2, 'button', 'button', 'Save'),
+    el(3, 'button', 'button', 'Cancel'),
+  ];
+  const ranked = ElementResolver.rank(ElementResolver.parse('Save button'), elements);
+  assert.deepEqual(ranked.map(c => [c.index, c.score]), [[2, 8], [1, 5], [0, 2], [3, 1]]);
+  assert.deepEqual(ElementResolver.rank(ElementResolver.parse('"save draft"'), elements).map(c => c.index)[0], 1);
+});
+
+test('rank uses container text to tell equal elements apart', () => {
+  const elements = [
+    el(4, 'button', 'button', 'Edit', { context: 'section billing address', title: 'Billing' }),
+    el(9, 'button', 'button', 'Edit', { context: 'section profile card', title: 'Profile' }),
+  ];
+  const [best, second] = ElementResolver.rank(ElementResolver.parse('Edit button in the profile card'), elements);
+  assert.deepEqual({ index: best.index, context: best.context }, { index: 9, context: 'Profile' });
+  assert.ok(best.score > second.score);
+  const tied = ElementResolver.rank(ElementResolver.parse('Edit button'), elements);
+  assert.equal(tied[0].score, tied[1].score);
+});
+
+test('rank matches unlabeled fields on nearby text and drops labels of scored fields', () => {
+  const elements = [
+    el(0, 'label', 'generic', 'Email address', { control: 1 }),
+    el(1, 'input', 'textbox', 'Email address', { extra: 'you@example.com email email' }),
+    el(2, 'input', 'textbox', '', { extra: 'search query text' }),
+  ];
+  // Other fields of the right role stay in as weaker matches
+  assert.deepEqual(ElementResolver.rank(ElementResolver.parse('email field'), elements).map(c => c.index), [1, 2]);
+  assert.deepEqual(ElementResolver.rank(ElementResolver.parse('search box'), elements).map(c => c.index), [2, 1]);
+  assert.deepEqual(ElementResolver.rank(ElementResolver.parse('"newsletter"'), elements), []);
+});
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { contextOptions, emulationLabel, expandMatrix, parseEmulationProfile } from '../src/utils/emulation';
+
+test('parseEmulationProfile reads device names, sizes and objects', () => {
+  assert.deepEqual(parseEmulationProfile('iPhone 13'), { device: 'iPhone 13' });
+  assert.deepEqual(parseEmulationProfile('375 x 667'), { viewport: { width: 375, height: 667 } });
+  assert.deepEqual(parseEmulationProfile({ colorScheme: 'dark', locale: 'de-DE', extra: 1 }), { colorScheme: 'dark', locale: 'de-DE' });
+});
+
+test('parseEmulationProfile rejects unknown devices, bad sizes and color schemes', () => {
+  assert.throws(() => parseEmulationProfile('iPhone 99'), { message: 'Unknown device "iPhone 99"' });
+  assert.throws(() => parseEmulationProfile('pixel'), /^Error: Unknown device "pixel" \(did you mean: Pixel /);
+  assert.throws(() => parseEmulationProfile({ viewport: { width: 0, height: 600 } }), /Invalid viewport .*needs positive width and height/);
+  assert.throws(() => parseEmulationProfile({ colorScheme: 'sepia' }), { message: 'Invalid colorScheme "sepia" (use light, dark, no-preference)' });
+  assert.throws(() => parseEmulationProfile(42), /Invalid emulation profile 42/);
+});
+
+test('emulationLabel prefers the name, then the device or size plus overrides', () => {
+  assert.equal(emulationLabel({ name: 'Phone', device: 'iPhone 13' }), 'Phone');
+  assert.equal(emulationLabel({ viewport: { width: 375, height: 667 }, colorScheme: 'dark', locale: 'fr-FR' }), '375x667 dark fr-FR');
+  assert.equal(emulationLabel({}), 'default');
+});
+
+test('expandMatrix gives one labelled config per entry and lets a device replace the base viewport', () => {
+  assert.deepEqual(expandMatrix({ locale: 'en-US' }), [{ config: { locale: 'en-US' } }]);
+  const runs = expandMatrix({ viewport: { width: 1440, height: 900 }, locale: 'en-US', matrix: [{ device: 'iPhone 13' }, { colorScheme: 'dark' }] });
+  assert.deepEqual(runs.map(r => r.label), ['iPhone 13', 'dark']);
+  assert.equal(runs[0].config.viewport, undefined);
+  assert.deepEqual(runs[1].config, { viewport: { width: 1440, height: 900 }, locale: 'en-US', colorScheme: 'dark' });
+});
+
+test('contextOptions drops isMobile for firefox and maps the timezone', () => {
+  const options = contextOptions({ device: 'iPhone 13', timezone: 'Asia/Tashkent' }, 'firefox');
+  assert.equal(options.isMobile, undefined);
+  assert.equal(options.hasTouch, true);
+  assert.equal(options.timezoneId, 'Asia/Tashkent');
+  assert.deepEqual(contextOptions({}).viewport, { width: 1280, height: 720 });
+});
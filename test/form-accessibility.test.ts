@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { fieldAccessibilityIssues } from '../src/core/form/form-tester';
+import { withinLevel } from '../src/core/accessibility';
+
+const email = { type: 'email', label: 'Email', required: true, ariaRequired: 'true', disabled: false, focusable: true };
+
+test('withinLevel includes lower levels only', () => {
+  assert.ok(withinLevel('A', 'AA'));
+  assert.ok(withinLevel('AA', 'AA'));
+  assert.ok(!withinLevel('AA', 'A'));
+  assert.ok(!withinLevel('AAA', 'AA'));
+});
+
+test('field checks at A and AA give different results', () => {
+  assert.deepEqual(fieldAccessibilityIssues(email, 'A'), []);
+  assert.deepEqual(fieldAccessibilityIssues(email, 'AA'), [{
+    message: 'Missing autocomplete attribute on email field',
+    wcagCriteria: '1.3.5 Identify Input Purpose (Level AA)',
+    recommendation: 'Add an autocomplete token (e.g. autocomplete="email")',
+  }]);
+  assert.deepEqual(fieldAccessibilityIssues({ ...email, autocomplete: 'email' }, 'AAA'), []);
+});
+
+test('level A findings are labelled with their criterion at every level', () => {
+  const field = { type: 'text', required: true, disabled: false, focusable: false };
+  for (const level of ['A', 'AA'] as const) {
+    assert.deepEqual(fieldAccessibilityIssues(field, level).map(i => i.wcagCriteria), [
+      '1.3.1 Info and Relationships (Level A)',
+      '2.1.1 Keyboard (Level A)',
+      '4.1.2 Name, Role, Value (Level A)',
+    ]);
+  }
+  assert.deepEqual(fieldAccessibilityIssues({ ...field, label: 'Name', disabled: true }, 'A').map(i => i.message), [
+    'Field is disabled (may be accessibility issue if not properly indicated)',
+    'Missing aria-required="true" attribute',
+  ]);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NetworkRequest } from '../src/types';
+import { REDACTED, formatBody, isSensitiveField, keepRawBody, rawBody, redactHeaders } from '../src/utils/network-capture';
+
+test('redactHeaders hides auth and cookie headers in any case, plus configured ones', () => {
+  const headers = redactHeaders(
+    { Authorization: 'Bearer abc', Cookie: 'sid=1', 'X-Tenant': 'acme', Accept: 'application/json' },
+    { redactHeaders: ['x-tenant'] },
+  );
+  assert.deepEqual(headers, { Authorization: REDACTED, Cookie: REDACTED, 'X-Tenant': REDACTED, Accept: 'application/json' });
+});
+
+test('isSensitiveField knows common secrets and configured field names', () => {
+  for (const key of ['password', 'newPassword', 'pass', 'client_secret', 'accessToken', 'api-key', 'cvv', 'card_number']) {
+    assert.ok(isSensitiveField(key), key);
+  }
+  assert.ok(!isSensitiveField('passenger'));
+  assert.ok(!isSensitiveField('ssn'));
+  assert.ok(isSensitiveField('SSN', { redactFields: ['ssn'] }));
+});
+
+test('formatBody redacts nested JSON fields but keeps sensitive-named objects to recurse into', () => {
+  const body = JSON.stringify({ user: { email: 'a@b.c', password: 'hunter2' }, tokens: [{ token: 't1' }], token: null });
+  assert.deepEqual(JSON.parse(formatBody(body, 'application/json')!), {
+    user: { email: 'a@b.c', password: REDACTED },
+    tokens: [{ token: REDACTED }],
+    token: null,
+  });
+});
+
+test('formatBody redacts form fields and sniffs JSON without a content type', () => {
+  assert.equal(formatBody('user=bob&password=x', 'application/x-www-form-urlencoded'), `user=bob&password=${encodeURIComponent(REDACTED)}`);
+  assert.equal(formatBody(Buffer.from('{"secret":1}'), undefined), `{"secret":"${REDACTED}"}`);
+  assert.equal(formatBody('{not json', 'application/json'), '{not json');
+});
+
+test('formatBody summarizes binary bodies, drops empty ones and truncates long text', () => {
+  assert.equal(formatBody(Buffer.alloc(2048), 'image/png; q=1'), '[binary image/png, 2048 bytes]');
+  assert.equal(formatBody('', 'text/plain'), undefined);
+  assert.equal(formatBody(null, 'text/plain'), undefined);
+  assert.equal(formatBody('abcdefghij', 'text/plain', { maxBodySize: 4 }), 'abcd…[truncated 6 chars]');
+});
+
+test('rawBody returns the unredacted text body and falls back to the stored one', () => {
+  const entry = { url: '/api/login', method: 'POST', status: 200, requestBody: `{"password":"${REDACTED}"}`, responseBody: 'ok' } as NetworkRequest;
+  assert.equal(rawBody(entry, 'request'), entry.requestBody);
+  keepRawBody(entry, 'request', Buffer.from('{"password":"hunter2"}'), 'application/json');
+  keepRawBody(entry, 'response', Buffer.alloc(10), 'image/png');
+  assert.equal(rawBody(entry, 'request'), '{"password":"hunter2"}');
+  assert.equal(rawBody(entry, 'response'), 'ok');
+});
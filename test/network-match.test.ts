@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NetworkRequest } from '../src/types';
+import { keepRawBody, REDACTED } from '../src/utils/network-capture';
+import { checkNetwork, statusMatches, urlMatches, valueAtPath } from '../src/utils/network-match';
+
+const request = (method: string, url: string, status: number, extra: Partial<NetworkRequest> = {}): NetworkRequest => ({
+  url, method, status, statusText: '', duration: 10, resourceType: 'fetch', timestamp: 0, ...extra,
+});
+
+test('urlMatches supports substrings, globs and regexes', () => {
+  const url = 'http://localhost:3000/api/v2/users/42?expand=1';
+  assert.ok(urlMatches(url, '/api/v2/users'));
+  assert.ok(urlMatches(url, '**/api/*/users/*'));
+  assert.ok(!urlMatches(url, '**/api/*'));
+  assert.ok(urlMatches(url, '/\\/v\\d\\/USERS/i'));
+  assert.ok(!urlMatches(url, '/orders/'));
+  assert.ok(urlMatches(url));
+});
+
+test('statusMatches accepts codes, classes and ranges, defaulting to 2xx/3xx', () => {
+  assert.ok(statusMatches(201, 201));
+  assert.ok(statusMatches(201, '201'));
+  assert.ok(statusMatches(404, '4xx'));
+  assert.ok(statusMatches(299, '200-299'));
+  assert.ok(!statusMatches(300, '200-299'));
+  assert.ok(statusMatches(302));
+  assert.ok(!statusMatches(500));
+});
+
+test('valueAtPath reads dotted and indexed paths', () => {
+  const body = { data: { items: [{ id: 7 }] } };
+  assert.equal(valueAtPath(body, 'data.items.0.id'), 7);
+  assert.equal(valueAtPath(body, 'data.items[0].id'), 7);
+  assert.equal(valueAtPath(body, 'data.missing.id'), undefined);
+});
+
+test('network_success fails on a bad status among the matching requests', () => {
+  const requests = [request('GET', '/api/a', 200), request('GET', '/api/a', 503), request('GET', '/img/x.png', 404)];
+  const result = checkNetwork('network_success', { url: '/api/a' }, requests);
+  assert.equal(result.passed, false);
+  assert.equal(result.message, '/api/a: expected status 2xx/3xx, got 503');
+  assert.equal(checkNetwork('network_request', { url: '/api/a' }, requests).passed, true);
+});
+
+test('network_request checks method, count and reports when nothing matched', () => {
+  const requests = [request('POST', '/api/save', 201), request('POST', '/api/save', 201)];
+  assert.equal(checkNetwork('network_request', { url: '/api/save', method: 'post', count: 2, status: 201 }, requests).passed, true);
+  assert.equal(checkNetwork('network_request', { url: '/api/save', count: 1 }, requests).message,
+    'Expected 1 request(s) to /api/save, got 2');
+  assert.equal(checkNetwork('network_request', { url: '/api/save', method: 'GET' }, requests).message,
+    'No request to GET /api/save in this step (2 requests seen)');
+});
+
+test('no_network_request fails when a matching request was made', () => {
+  const requests = [request('GET', '/api/track', 204)];
+  assert.equal(checkNetwork('no_network_request', { url: '/analytics' }, requests).passed, true);
+  const result = checkNetwork('no_network_request', { url: '/api/track' }, requests);
+  assert.deepEqual(result, { passed: false, message: 'Unexpected request: /api/track (1 made)', actual: 'GET /api/track → 204' });
+});
+
+test('json matches the full response body even when the stored one is truncated', () => {
+  const items = Array.from({ length: 500 }, (_, i) => ({ id: i, name: `item ${i}` }));
+  const full = JSON.stringify({ total: 500, items });
+  const entry = request('GET', '/api/items', 200, { responseBody: `${full.slice(0, 100)}…[truncated]` });
+  keepRawBody(entry, 'response', Buffer.from(full), 'application/json');
+  assert.ok(full.length > 10000);
+  assert.equal(checkNetwork('network_request', { url: '/api/items', json: { total: 500, 'items[499].id': 499 } }, [entry]).passed, true);
+  const result = checkNetwork('network_request', { url: '/api/items', json: { 'items[499].name': 'other' } }, [entry]);
+  assert.equal(result.message, '/api/items: response items[499].name expected "other", got "item 499"');
+});
+
+test('json compares loosely across strings and numbers, strictly for objects', () => {
+  const entry = request('GET', '/api/me', 200, { responseBody: '{"id":"42","roles":["admin"]}' });
+  assert.equal(checkNetwork('network_request', { url: '/api/me', json: { id: 42, roles: ['admin'] } }, [entry]).passed, true);
+  assert.equal(checkNetwork('network_request', { url: '/api/me', json: { roles: ['user'] } }, [entry]).passed, false);
+  const binary = request('GET', '/api/me', 200, { responseBody: '[binary image/png, 10 bytes]' });
+  assert.match(checkNetwork('network_request', { url: '/api/me', json: { id: 42 } }, [binary]).message, /not captured or not JSON/);
+});
+
+test('request_contains matches the unredacted request but never prints secrets', () => {
+  const entry = request('POST', '/api/login', 200, { requestBody: `{"user":"bob","password":"${REDACTED}"}` });
+  keepRawBody(entry, 'request', '{"user":"bob","password":"hunter2"}', 'application/json');
+  assert.equal(checkNetwork('network_request', { url: '/api/login', request_contains: { user: 'bob', password: 'hunter2' } }, [entry]).passed, true);
+  assert.equal(checkNetwork('network_request', { url: '/api/login', request_contains: 'hunter2' }, [entry]).passed, true);
+
+  const result = checkNetwork('network_request', { url: '/api/login', request_contains: { password: 'wrong' } }, [entry]);
+  assert.equal(result.message, `/api/login: request password expected ${REDACTED}, got ${REDACTED}`);
+  assert.ok(!result.actual!.includes('hunter2'));
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Recorder } from '../src/core/recorder';
+
+test('recorded password fields reference credentials and never store the typed value', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fe-pilot-'));
+  const log = console.log;
+  try {
+    const output = path.join(dir, 'login.yaml');
+    // Drive the recorder with the events the in-page script would send
+    const recorder = new Recorder({ output }) as any;
+    recorder.startUrl = 'http://localhost:3000/login';
+    console.log = () => {};
+    recorder.onEvent({ kind: 'fill', selector: '#user', label: 'Username', value: 'bob' });
+    recorder.onEvent({ kind: 'fill', selector: '#pass', label: 'Password', value: 'hunter', password: true });
+    recorder.onEvent({ kind: 'fill', selector: '#pass', label: 'Password', value: 'hunter2', password: true });
+    recorder.onEvent({ kind: 'click', selector: 'button[type="submit"]', label: 'Sign in' });
+    console.log = log;
+
+    const yaml = fs.readFileSync(output, 'utf8');
+    assert.ok(!yaml.includes('hunter'), yaml);
+    assert.ok(!/^variables:/m.test(yaml));
+    assert.deepEqual(recorder.steps.map((s: any) => s.value), ['bob', '{{credentials.password}}', undefined]);
+  } finally {
+    console.log = log;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
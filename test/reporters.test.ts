@@ -0,0 +1,155 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StepResult, TestReport } from '../src/types';
+import { collectStepCases, createReporters, failureMessages, reportTitle, resolveReportPath } from '../src/core/reporters';
+
+const step = (n: number, status: StepResult['status'], extra: Partial<StepResult> = {}): StepResult => ({
+  step: n,
+  action: { action: 'click', selector: '#go' },
+  status,
+  observations: {} as any,
+  duration: 120,
+  ...extra,
+});
+
+const report = (steps: StepResult[], extra: Partial<TestReport> = {}): TestReport => ({
+  scenario: 'Login',
+  status: steps.some(s => s.status === 'failed') ? 'failed' : 'passed',
+  duration: 1500,
+  startTime: 0,
+  endTime: 1500,
+  steps,
+  summary: {
+    totalSteps: steps.length, passed: 0, failed: 0, warnings: 0, skipped: 0, bugsFound: 0, bugsFixed: 0, screenshots: [],
+    consoleErrors: 0, networkErrors: 0, validationErrors: 0, assertionsPassed: 0, assertionsFailed: 0, retriedSteps: 0,
+  },
+  ...extra,
+} as TestReport);
+
+const render = (name: string, reports: TestReport[]) => createReporters([name])[0].render(reports);
+
+const sample = report([
+  step(1, 'success', { action: { action: 'navigate', url: '/', description: 'Open <home>' } }),
+  step(2, 'success', {
+    action: { action: 'if' },
+    children: [step(1, 'failed', { branch: 'then', error: 'Element "#go" not found' })],
+  }),
+  step(3, 'success', {
+    action: { action: 'for_each' },
+    children: [step(1, 'success', { iteration: 1 }), step(1, 'warning', { iteration: 2 })],
+  }),
+  step(4, 'skipped'),
+]);
+
+test('collectStepCases flattens control flow into labelled leaf cases', () => {
+  assert.deepEqual(collectStepCases(sample.steps).map(c => c.label), ['1', '2.then.1', '3[1].1', '3[2].1', '4']);
+  assert.equal(collectStepCases(sample.steps)[0].name, 'Step 1: navigate - Open <home>');
+});
+
+test('failureMessages puts the step error before failed assertions without repeating it', () => {
+  const failed = step(1, 'failed', {
+    error: 'expected 2 items',
+    assertions: [
+      { type: 'element_count', passed: false, message: 'expected 2 items' },
+      { type: 'element_text', passed: false },
+      { type: 'url_contains', passed: true },
+    ],
+  });
+  assert.deepEqual(failureMessages(failed), ['element_count: expected 2 items', 'element_text: assertion failed']);
+  assert.deepEqual(failureMessages(step(1, 'failed', { error: 'boom' })), ['boom']);
+});
+
+test('reportTitle adds the browser only when the scenario ran in several', () => {
+  const chromium = report([], { browser: 'chromium' });
+  const firefox = report([], { browser: 'firefox', variant: 'iPhone 13' });
+  assert.equal(reportTitle(chromium, [chromium]), 'Login');
+  assert.equal(reportTitle(firefox, [chromium, firefox]), 'Login [firefox] [iPhone 13]');
+});
+
+test('junit reporter writes a testcase per leaf step with failures and skips', () => {
+  const xml = render('junit', [sample]);
+  assert.match(xml, /<testsuites name="fe-pilot" tests="5" failures="1" skipped="1" time="1\.500">/);
+  assert.match(xml, /<testcase name="Step 1: navigate - Open &lt;home&gt;" classname="Login" time="0\.120">/);
+  assert.match(xml, /<failure message="Element &quot;#go&quot; not found" type="click">/);
+  assert.match(xml, /<testcase name="Step 4: click"[^>]*>\n {6}<skipped\/>/);
+  assert.match(xml, /<system-out>Step completed with warnings<\/system-out>/);
+});
+
+test('junit reporter strips characters XML cannot hold', () => {
+  const xml = render('junit', [report([step(1, 'failed', { error: 'bad\u0001 byte' })])]);
+  assert.match(xml, /message="bad byte"/);
+});
+
+test('tap reporter writes numbered test points with diagnostics', () => {
+  const tap = render('tap', [sample]);
+  const lines = tap.split('\n');
+  assert.deepEqual(lines.slice(0, 3), ['TAP version 13', '1..5', 'ok 1 - Step 1: navigate - Open <home>']);
+  assert.ok(lines.includes('not ok 2 - Step 2.then.1: click'));
+  assert.ok(lines.includes('  message: "Element \\"#go\\" not found"'));
+  assert.ok(lines.includes('ok 5 - Step 4: click # SKIP stopped after earlier failure'));
+  assert.ok(lines.includes('  severity: warning'));
+});
+
+test('tap reporter prefixes scenario names and escapes # when there are several reports', () => {
+  const tap = render('tap', [sample, report([step(1, 'success', { action: { action: 'click', description: 'Tab #2' } })], { scenario: 'Search' })]);
+  assert.match(tap, /^ok 6 - Search > Step 1: click - Tab \\#2$/m);
+});
+
+test('json reporter keeps a single report unwrapped', () => {
+  assert.equal(JSON.parse(render('json', [sample])).scenario, 'Login');
+  assert.equal(JSON.parse(render('json', [sample, sample])).length, 2);
+});
+
+test('createReporters rejects unknown formats and drops duplicates', () => {
+  assert.throws(() => createReporters(['junit', 'xml']), /Unknown reporter\(s\): xml\. Available: json, junit, tap, html/);
+  assert.deepEqual(createReporters(['tap', 'tap', 'json']).map(r => r.name), ['tap', 'json']);
+});
+
+test('resolveReportPath gives each reporter its own extension when several share a report file', () => {
+  const [junit] = createReporters(['junit']);
+  const base = { outputDir: '/out', timestamp: 42 };
+  assert.equal(resolveReportPath(junit, { ...base, reporterCount: 1 }), '/out/report-42.xml');
+  assert.equal(resolveReportPath(junit, { ...base, reportFile: '/ci/results.txt', reporterCount: 1 }), '/ci/results.txt');
+  assert.equal(resolveReportPath(junit, { ...base, reportFile: '/ci/results.txt', reporterCount: 2 }), '/ci/results.xml');
+});
+
+test('html reporter escapes content, nests control flow and inlines screenshots', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fe-pilot-'));
+  try {
+    const shot = path.join(dir, 'step.png');
+    fs.writeFileSync(shot, Buffer.from('png-bytes'));
+    const html = render('html', [report([
+      ...sample.steps,
+      step(5, 'success', { observations: { screenshot: shot } as any }),
+      step(6, 'success', { observations: { screenshot: path.join(dir, 'gone.png') } as any }),
+    ], { status: 'failed' })]);
+    assert.match(html, /<title>fe-pilot report - Login<\/title>/);
+    assert.match(html, /<span class="badge failed">failed<\/span>/);
+    assert.match(html, /<div class="value">6<\/div><div class="label">Steps<\/div>/);
+    assert.match(html, /Open &lt;home&gt;/);
+    assert.match(html, /<div class="error">Element &quot;#go&quot; not found<\/div>/);
+    assert.match(html, /<div class="children"><div class="step failed">\n.*Step 1 \(then\): click/);
+    assert.match(html, /Step 1 \(iteration 2\): click/);
+    assert.ok(html.includes(`src="data:image/png;base64,${Buffer.from('png-bytes').toString('base64')}"`));
+    assert.equal(html.match(/<img class="shot"/g)!.length, 1);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('html reporter lists failed requests with their response body', () => {
+  const html = render('html', [report([step(1, 'failed', {
+    observations: {
+      newNetworkRequests: [
+        { method: 'GET', url: '/api/ok', status: 200, duration: 10 },
+        { method: 'POST', url: '/api/save', status: 500, duration: 33.4, responseBody: '{"error":"<db down>"}' },
+      ],
+    } as any,
+  })])]);
+  assert.match(html, /<summary>Network \(2, 1 failed\)<\/summary>/);
+  assert.match(html, /<tr class="bad"><td>POST<\/td><td>500<\/td><td>\/api\/save<\/td><td>33ms<\/td><\/tr>/);
+  assert.ok(html.includes('{&quot;error&quot;:&quot;&lt;db down&gt;&quot;}'));
+});
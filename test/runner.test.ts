@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScenarioRunner } from '../src/core/runner';
+import { ScenarioParser } from '../src/utils/scenario-parser';
+
+const entries = [
+  { file: 'login.yaml', scenario: { name: 'Login happy path', tags: ['smoke', 'auth'] } },
+  { file: 'signup.yaml', scenario: { name: 'Signup', tags: ['auth'] } },
+  { file: 'search.yaml', scenario: { name: 'Search results', tags: [] } },
+];
+const files = (list: typeof entries) => list.map(e => e.file);
+
+test('filter keeps scenarios with any of the tags', () => {
+  assert.deepEqual(files(ScenarioRunner.filter(entries, ['smoke'])), ['login.yaml']);
+  assert.deepEqual(files(ScenarioRunner.filter(entries, ['smoke', 'auth'])), ['login.yaml', 'signup.yaml']);
+  assert.deepEqual(files(ScenarioRunner.filter(entries, ['nightly'])), []);
+  assert.deepEqual(files(ScenarioRunner.filter(entries, [])), files(entries));
+});
+
+test('filter matches names as a case-insensitive regex and combines with tags', () => {
+  assert.deepEqual(files(ScenarioRunner.filter(entries, undefined, '^s')), ['signup.yaml', 'search.yaml']);
+  assert.deepEqual(files(ScenarioRunner.filter(entries, ['auth'], 'happy|search')), ['login.yaml']);
+  assert.throws(() => ScenarioRunner.filter(entries, undefined, '('), /Invalid regular expression/);
+});
+
+test('readHeader reads name and tags without validating the steps', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fe-pilot-'));
+  try {
+    const file = path.join(dir, 'broken.yaml');
+    fs.writeFileSync(file, 'name: Checkout\ntags: smoke\nsteps:\n  - use: not-defined\n');
+    const header = ScenarioParser.readHeader(file);
+    assert.deepEqual(header, { name: 'Checkout', tags: ['smoke'] });
+    assert.deepEqual(files(ScenarioRunner.filter([{ file, scenario: header }], ['nightly'])), []);
+    assert.throws(() => ScenarioParser.loadFromFile(file), /unknown block "not-defined"/);
+
+    fs.writeFileSync(file, 'just text\n');
+    assert.throws(() => ScenarioParser.readHeader(file), /broken\.yaml: expected a YAML mapping/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
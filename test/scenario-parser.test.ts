@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScenarioParser } from '../src/utils/scenario-parser';
+
+const fixture = (...parts: string[]) => path.join(__dirname, '../../test/fixtures', ...parts);
+
+test('use: expands blocks from included files, binding params and defaults', () => {
+  const scenario = ScenarioParser.loadFromFile(fixture('blocks/nested-use.yaml'));
+  const [, user, password, submit] = scenario.steps;
+  assert.deepEqual([user.value, password.value, submit.action], ['admin', 'secret', 'click']);
+  assert.deepEqual(ScenarioParser.validate(scenario).errors, []);
+});
+
+test('use: inside if then/else and loop steps is expanded', () => {
+  const scenario = ScenarioParser.loadFromFile(fixture('blocks/nested-use.yaml'));
+  const branch = scenario.steps.find(s => s.action === 'if')!;
+  const loop = scenario.steps.find(s => s.action === 'for_each')!;
+  assert.deepEqual(branch.then!.map(s => s.action), ['click']);
+  assert.deepEqual(branch.else!.map(s => s.value ?? s.action), ['guest', 'guest', 'click']);
+  assert.deepEqual(loop.steps!.map(s => s.value ?? s.action), ['{{item.name}}', 'secret', 'click']);
+});
+
+test('block cycles are reported with the chain', () => {
+  assert.throws(() => ScenarioParser.loadFromFile(fixture('blocks/cycle.yaml')), /block cycle detected: a -> b -> a/);
+});
+
+test('unknown blocks and missing parameters name the step that used them', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fe-pilot-'));
+  const write = (name: string, body: string) => {
+    fs.writeFileSync(path.join(dir, name), body);
+    return path.join(dir, name);
+  };
+  try {
+    const unknown = write('unknown.yaml', 'name: x\nurl: http://localhost\nsteps:\n  - use: nope\n');
+    assert.throws(() => ScenarioParser.loadFromFile(unknown), /unknown block "nope"/);
+    const missing = write('missing.yaml', [
+      'name: x', 'url: http://localhost',
+      'define:', '  greet:', '    params: { who: ~ }', '    steps:', '      - action: wait', '        value: "{{who}}"',
+      'steps:', '  - use: greet', '',
+    ].join('\n'));
+    assert.throws(() => ScenarioParser.loadFromFile(missing), /missing\.yaml:10.*missing parameter\(s\) for block "greet": who/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('bindParams resolves dotted paths and keeps the type of whole-value references', () => {
+  const params = { user: { name: 'alice', roles: ['admin'] }, count: 3 };
+  assert.equal(ScenarioParser.bindParams('Hi {{user.name}} ({{ count }})', params), 'Hi alice (3)');
+  assert.deepEqual(ScenarioParser.bindParams('{{user.roles}}', params), ['admin']);
+  assert.equal(ScenarioParser.bindParams('{{count}}', params), 3);
+  assert.deepEqual(ScenarioParser.bindParams({ value: ['{{user.name}}'] }, params), { value: ['alice'] });
+});
+
+test('bindParams leaves expressions it does not own untouched', () => {
+  const params = { user: 'alice' };
+  assert.equal(ScenarioParser.bindParams('{{faker.person.firstName()}} {{credentials.password}}', params),
+    '{{faker.person.firstName()}} {{credentials.password}}');
+  assert.equal(ScenarioParser.bindParams('{{user.missing}}', params), '{{user.missing}}');
+});
+
+test('substituteVariables fills variables, credentials and function calls', () => {
+  const scenario = ScenarioParser.substituteVariables({
+    name: 'vars',
+    url: 'http://localhost:3000',
+    credentials: { username: 'bob' },
+    variables: { greeting: 'hello', users: [{ name: 'a' }, { name: 'b' }] },
+    steps: [
+      { action: 'navigate', url: '{{url}}/login' },
+      { action: 'type', selector: '#u', value: '{{credentials.username}}' },
+      { action: 'type', selector: '#g', value: '{{greeting}} {{faker.number.int(5, 5)}}' },
+      { action: 'type', selector: '#x', value: '{{nope.missing}}' },
+      { action: 'for_each', items: '{{users}}' as any, steps: [{ action: 'click', selector: '{{item.name}}' }] },
+    ],
+  } as any);
+  const [nav, user, greeting, missing, loop] = scenario.steps;
+  assert.equal(nav.url, 'http://localhost:3000/login');
+  assert.equal(user.value, 'bob');
+  assert.equal(greeting.value, 'hello 5');
+  assert.equal(missing.value, '{{nope.missing}}');
+  assert.deepEqual(loop.items, [{ name: 'a' }, { name: 'b' }]);
+  assert.equal(loop.steps![0].selector, '{{item.name}}');
+});
+
+test('mock fixtures resolve against the file that declares them', () => {
+  const scenario = ScenarioParser.loadFromFile(fixture('mocks/mocks.yaml'));
+  assert.equal(scenario.config!.mocks![0].fixture, fixture('mocks/data/me.json'));
+  assert.equal(scenario.steps[0].fixture, fixture('mocks/lib/data/users.json'));
+  assert.equal(scenario.steps[1].then![0].fixture, '{{fixtureDir}}/retry.json');
+});
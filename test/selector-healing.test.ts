@@ -0,0 +1,137 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Action, StepResult, TestReport } from '../src/types';
+import { ActionExecutor } from '../src/core/executor';
+import { Pilot } from '../src/core/pilot';
+import { ScenarioParser } from '../src/utils/scenario-parser';
+
+/**
+ * Page stand-in for resolveSelector: `matching` selectors exist, everything
+ * else times out at once. Calls are logged in order.
+ */
+function fakePage(matching: string[]) {
+  const calls: string[] = [];
+  const page = {
+    locator: (selector: string) => ({
+      count: async () => { calls.push(`count ${selector}`); return matching.includes(selector) ? 1 : 0; },
+      first: () => ({
+        waitFor: async ({ timeout }: { timeout: number }) => {
+          calls.push(`wait ${selector} ${timeout}`);
+          if (!matching.includes(selector)) throw new Error(`Timeout ${timeout}ms exceeded`);
+        },
+      }),
+    }),
+    waitForTimeout: async () => {},
+  };
+  return { page: page as any, calls };
+}
+
+// Runs resolveSelector quietly, returning what it logged
+async function resolve(executor: ActionExecutor, action: Action): Promise<{ selector?: string; logs: string[] }> {
+  const logs: string[] = [];
+  const log = console.log;
+  console.log = (...args: unknown[]) => { logs.push(args.join(' ')); };
+  try {
+    const resolved: Action = await (executor as any).resolveSelector(action);
+    return { selector: resolved.selector, logs };
+  } finally {
+    console.log = log;
+  }
+}
+
+const click = (extra: Partial<Action> = {}): Action => ({
+  action: 'click',
+  selector: '#save-old',
+  fallbacks: [{ role: 'button', name: 'Save' }, { text: 'Save' }, '[data-testid="save"]'],
+  ...extra,
+});
+
+test('a selector list becomes the primary selector plus fallbacks, in order', () => {
+  const [step, branch] = (ScenarioParser as any).normalizeSelectors([
+    { action: 'click', selector: ['#save', { role: 'button', name: 'Save' }], fallbacks: ['text=Save'] },
+    { action: 'if', then: [{ action: 'click', fallbacks: [{ test_id: 'ok' }, '#ok'] }] },
+  ]);
+  assert.equal(step.selector, '#save');
+  assert.deepEqual(step.fallbacks, [{ role: 'button', name: 'Save' }, 'text=Save']);
+  assert.equal(branch.then[0].selector, '[data-testid="ok"]');
+  assert.deepEqual(branch.then[0].fallbacks, ['#ok']);
+});
+
+test('the primary selector gets the healing grace period before fallbacks are tried', async () => {
+  const { page, calls } = fakePage(['#save-old', 'role=button[name="Save"]']);
+  const executor = new ActionExecutor(page);
+  assert.equal((await resolve(executor, click())).selector, '#save-old');
+  assert.deepEqual(calls, ['wait #save-old 3000']);
+  assert.deepEqual(executor.takeSelectorMatch(), { original: '#save-old', matched: '#save-old', healed: false });
+
+  // A shorter step timeout caps the grace
+  calls.length = 0;
+  await resolve(executor, click({ timeout: 1200 }));
+  assert.deepEqual(calls, ['wait #save-old 1200']);
+});
+
+test('fallbacks are tried in the order written and the first match wins', async () => {
+  const { page, calls } = fakePage(['text=Save', '[data-testid="save"]']);
+  const executor = new ActionExecutor(page);
+  const { selector, logs } = await resolve(executor, click());
+  assert.equal(selector, 'text=Save');
+  assert.deepEqual(calls, ['wait #save-old 3000', 'count #save-old', 'count role=button[name="Save"]', 'count text=Save']);
+  assert.deepEqual(executor.takeSelectorMatch(), { original: '#save-old', matched: 'text=Save', healed: true });
+  assert.deepEqual(logs, ['   🩹 Healed selector: #save-old → text=Save']);
+});
+
+test('a healed selector is reused from the cache without another grace period or log line', async () => {
+  const { page, calls } = fakePage(['[data-testid="save"]']);
+  const executor = new ActionExecutor(page);
+  await resolve(executor, click());
+
+  calls.length = 0;
+  // Later steps with the same primary selector heal even without fallbacks of their own
+  const { selector, logs } = await resolve(executor, { action: 'hover', selector: '#save-old' });
+  assert.equal(selector, '[data-testid="save"]');
+  assert.deepEqual(calls, ['count #save-old', 'count [data-testid="save"]']);
+  assert.deepEqual(logs, []);
+  assert.equal(executor.takeSelectorMatch()!.healed, true);
+});
+
+test('steps without fallbacks or cache entries are left alone, and no match is an error', async () => {
+  const { page, calls } = fakePage([]);
+  const executor = new ActionExecutor(page);
+  assert.equal((await resolve(executor, { action: 'click', selector: '#plain' })).selector, '#plain');
+  assert.deepEqual(calls, []);
+  await assert.rejects(resolve(executor, click({ timeout: 50 })),
+    { message: 'No selector matched: #save-old | role=button[name="Save"] | text=Save | [data-testid="save"]' });
+});
+
+test('the run summary lists each healed selector once with the change to make', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fe-pilot-'));
+  const logs: string[] = [];
+  const log = console.log;
+  try {
+    const healed = (step: number, matched: string): StepResult => ({
+      step, status: 'warning', duration: 1, observations: {} as any,
+      action: { action: 'click', selector: '#save-old', description: 'Save' },
+      selectorMatch: { original: '#save-old', matched, healed: true },
+    });
+    const steps: StepResult[] = [
+      healed(1, 'text=Save'),
+      { step: 2, status: 'success', duration: 1, observations: {} as any, action: { action: 'for_each' }, children: [healed(1, 'text=Save')] },
+      { step: 3, status: 'success', duration: 1, observations: {} as any, action: { action: 'click' }, selectorMatch: { original: '#ok', matched: '#ok', healed: false } },
+    ];
+    console.log = (...args: unknown[]) => { logs.push(args.join(' ')); };
+    (new Pilot({ outputDir: dir }) as any).printHealedSelectors({ steps } as TestReport);
+  } finally {
+    console.log = log;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  assert.deepEqual(logs, [
+    '\n🩹 Healed selectors - update the scenario so the primary selector matches again:',
+    '   Step 1 click (Save)',
+    '   -  selector: "#save-old"',
+    '   +  selector: "text=Save"',
+    '',
+  ]);
+});
@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { ExplorationSession } from '../src/types/ai';
+import { SessionExporter } from '../src/utils/session-exporter';
+import { ScenarioParser } from '../src/utils/scenario-parser';
+
+const sessionDir = path.join(__dirname, '../../test/fixtures/sessions/signup');
+
+// The fixture's AI typed the form, clicked a missing #submitt (failed, so the
+// batch stopped before #terms), then clicked #submit twice and opened the tour
+const EXPECTED = `# Exported by fe-pilot export-session
+name: Sign up for the newsletter
+description: Exported from exploration explore-1760860800000 (completed)
+url: http://localhost:3000/
+credentials:
+  username: ada@example.com
+  password: hunter22
+tags:
+  - exported
+steps:
+  - action: navigate
+    url: "{{url}}"
+  - action: type
+    selector: "#email"
+    value: "{{credentials.username}}"
+    description: Email
+  - action: type
+    selector: "#password"
+    value: "{{credentials.password}}"
+    description: Password
+  - action: click
+    selector: "#submit"
+    description: Sign up
+    wait_for:
+      condition: url_contains
+      value: /welcome
+  - action: navigate
+    url: "{{url}}/welcome?tab=tour"
+    description: Open the tour
+  - action: assert
+    assert_type: url_contains
+    expected: /welcome?tab=tour
+    description: Ends on the same page as the exploration
+  - action: assert
+    assert_type: title_contains
+    expected: Welcome tour
+    description: Final page title
+  - action: assert
+    assert_type: no_console_errors
+    scope: scenario
+    description: No console errors (none seen while exploring)
+`;
+
+test('a session exports to a scenario of the actions that ran', () => {
+  const scenario = SessionExporter.toScenario(SessionExporter.loadSession(sessionDir));
+  assert.equal(ScenarioParser.toYaml(scenario, 'Exported by fe-pilot export-session'), EXPECTED);
+  assert.deepEqual(ScenarioParser.validate(scenario), { valid: true, errors: [] });
+});
+
+test('failed and skipped actions are left out, repeated ones kept once', () => {
+  const session = SessionExporter.loadSession(sessionDir);
+  const asked = session.actions.flatMap(a => a.actions || [a.action]).map(a => a?.selector).filter(Boolean);
+  assert.deepEqual(asked, ['#email', '#password', '#submitt', '#terms', '#submit', '#submit']);
+
+  const steps = SessionExporter.toScenario(session).steps;
+  const selectors = steps.map(s => s.selector).filter(Boolean);
+  assert.deepEqual(selectors, ['#email', '#password', '#submit']);
+});
+
+test('older sessions export from the last observation history', () => {
+  const session: ExplorationSession = { ...SessionExporter.loadSession(sessionDir), executedActions: undefined, url: undefined };
+  assert.equal(ScenarioParser.toYaml(SessionExporter.toScenario(session), 'Exported by fe-pilot export-session'), EXPECTED);
+});
+
+test('export options rename, retag and drop the final state assertions', () => {
+  const session = SessionExporter.loadSession(sessionDir);
+  session.observations[1].newErrors.consoleErrors = 2;
+  const scenario = SessionExporter.toScenario(session, { name: 'Signup', tags: ['smoke'], assertFinalState: false });
+  assert.equal(scenario.name, 'Signup');
+  assert.deepEqual(scenario.tags, ['smoke']);
+  assert.deepEqual(scenario.steps.map(s => s.action), ['navigate', 'type', 'type', 'click', 'navigate']);
+
+  // Console errors seen while exploring mean no no_console_errors assertion
+  const asserted = SessionExporter.toScenario(session).steps.filter(s => s.action === 'assert');
+  assert.deepEqual(asserted.map(s => s.assert_type), ['url_contains', 'title_contains']);
+});
+
+test('sessions without observations cannot be exported', () => {
+  assert.throws(() => SessionExporter.loadSession(path.join(sessionDir, 'missing')), /^Error: No session.json in /);
+  const session = { ...SessionExporter.loadSession(sessionDir), observations: [] };
+  assert.throws(() => SessionExporter.toScenario(session), { message: 'Session explore-1760860800000 has no observations' });
+});